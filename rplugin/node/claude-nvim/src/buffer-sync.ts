@@ -0,0 +1,114 @@
+import { Neovim } from 'neovim';
+import { existsSync, readFileSync } from 'fs';
+import { diffLines, mergeLines } from './line-diff.js';
+
+/**
+ * Outcome of bringing a buffer in line with its file
+ */
+export type BufferSyncResult = 'unchanged' | 'reloaded' | 'merged' | 'conflict' | 'timeout' | 'not-loaded';
+
+/**
+ * Options for syncing a buffer after its file was written by someone else
+ */
+interface SyncBufferOptions {
+  filePath: string;
+  content: string; // Content expected on disk once the write lands
+  previousContent: string; // Content on disk before the write, base for merging unsaved edits
+  timeoutMs?: number;
+}
+
+/**
+ * Wait until a file on disk has the expected content
+ */
+export function waitForFileContent(filePath: string, content: string, timeoutMs: number): Promise<boolean> {
+  const matches = () => existsSync(filePath) && readFileSync(filePath, 'utf-8') === content;
+
+  return new Promise((resolve) => {
+    if (matches()) {
+      resolve(true);
+      return;
+    }
+
+    const startedAt = Date.now();
+    const interval = setInterval(() => {
+      if (matches()) {
+        clearInterval(interval);
+        resolve(true);
+      } else if (Date.now() - startedAt >= timeoutMs) {
+        clearInterval(interval);
+        resolve(false);
+      }
+    }, 100);
+  });
+}
+
+/**
+ * Convert file content to buffer lines (a trailing newline is implied by 'eol', not a line)
+ */
+export function toBufferLines(content: string): string[] {
+  const lines = content.split(/\r?\n/);
+  if (lines.length > 1 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Bring the loaded buffer of a file in line with new content written to disk.
+ *
+ * Only the changed region is replaced, in a single nvim_buf_set_lines call, so cursor,
+ * folds, marks and undo history outside of it survive and the change is one undo step.
+ * Unsaved edits in the buffer are three-way merged with the new content; when they
+ * conflict the buffer is left alone. The W11 "changed since editing started" prompt
+ * is suppressed once the buffer reflects the new file.
+ */
+export async function syncBufferWithFile(nvim: Neovim, options: SyncBufferOptions): Promise<BufferSyncResult> {
+  const bufnr = await nvim.call('bufnr', [options.filePath]) as number;
+  if (bufnr === -1 || !await nvim.call('bufloaded', [bufnr])) {
+    return 'not-loaded';
+  }
+
+  if (!await waitForFileContent(options.filePath, options.content, options.timeoutMs ?? 10000)) {
+    return 'timeout';
+  }
+
+  const current = await nvim.call('nvim_buf_get_lines', [bufnr, 0, -1, false]) as string[];
+  const modified = await nvim.call('getbufvar', [bufnr, '&modified']) as number;
+  const incoming = toBufferLines(options.content);
+
+  let target = incoming;
+  let result: BufferSyncResult = 'reloaded';
+
+  if (modified) {
+    const merge = mergeLines(toBufferLines(options.previousContent), current, incoming);
+    if (merge.conflicts > 0) {
+      return 'conflict';
+    }
+    target = merge.lines;
+    result = 'merged';
+  }
+
+  const hunks = diffLines(current, target);
+  if (hunks.length > 0) {
+    const first = hunks[0];
+    const last = hunks[hunks.length - 1];
+    const replacement = target.slice(first.newStart, last.newStart + last.newCount);
+    await nvim.call('nvim_buf_set_lines', [bufnr, first.oldStart, last.oldStart + last.oldCount, false, replacement]);
+  } else if (!modified) {
+    result = 'unchanged';
+  }
+
+  if (!modified) {
+    await nvim.call('setbufvar', [bufnr, '&modified', 0]);
+  }
+
+  // The buffer already reflects the file: acknowledge the new timestamp without reloading
+  await nvim.command('augroup ClaudeBufferSync');
+  await nvim.command(`autocmd! FileChangedShell <buffer=${bufnr}>`);
+  await nvim.command(`autocmd FileChangedShell <buffer=${bufnr}> let v:fcs_choice = ''`);
+  await nvim.command('augroup END');
+  await nvim.command(`checktime ${bufnr}`);
+  await nvim.command(`autocmd! ClaudeBufferSync FileChangedShell <buffer=${bufnr}>`);
+
+  return result;
+}
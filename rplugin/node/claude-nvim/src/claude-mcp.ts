@@ -1,42 +1,102 @@
 import { NvimPlugin } from 'neovim';
 import { WebSocketServer, WebSocket } from 'ws';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { createClaudeWebSocketServer } from './ws-server.js';
+import { createClaudeWebSocketServer, updateLockFile, readLockFile, sweepStaleLockFiles } from './ws-server.js';
+import { getWorkspaceFolders } from './workspace-folders.js';
+import { getIdeName } from './instance-identity.js';
 import { WebSocketTransport } from './ws-transport.js';
-import { registerNvimMcpTools } from './mcp-tools.js';
+import { registerNvimMcpTools, DiffChangeHandlers, DiffSettledEvent, PendingDiffInfo, AcceptOutcome } from './mcp-tools.js';
 import { Logger } from './logger.js';
+import { syncBufferWithFile, toBufferLines } from './buffer-sync.js';
+import { Journal } from './journal.js';
+import { EndpointState } from './endpoint-state.js';
+import { presentDiff, closeDiffView, DiffView } from './diff-view.js';
+import { mergeLines, CONFLICT_MARKERS } from './line-diff.js';
+import {
+  getSelectionState,
+  getMarkedSelection,
+  selectionLines,
+  buildSelectionParams,
+  emptySelectionParams,
+  SelectionParams,
+  SelectionState
+} from './selection.js';
+import { ContextBasket, BasketEntry, parseBasketEntryId } from './context-basket.js';
+import { SnapshotStore } from './mention-snapshot.js';
+import { diagnosticsAtCursor, listEntries, directoryToMention, hunkAtCursor, MentionBatch } from './mention-sources.js';
+import { existsSync, readFileSync, writeFileSync, mkdirSync, rmSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { dirname, join } from 'path';
+import { IncomingMessage } from 'http';
 
 /**
- * Claude MCP Server Manager
- * Manages WebSocket server and MCP server instances for each connected client
+ * State of a connected Claude client, from connection until disconnect
+ */
+interface ClientSession {
+  id: number;
+  ws: WebSocket;
+  mcpServer: McpServer;
+  handlers: DiffChangeHandlers;
+  healthCheckInterval: NodeJS.Timeout | null;
+  lastSelection: string | null; // Last selection_changed sent to this client, to skip duplicates
+  clientInfo: { name: string; version: string } | null; // From MCP initialize
+  remoteAddress: string;
+  connectedAt: number;
+  lastActivity: number; // Last request or notification from the client
+}
+
+/**
+ * Summary of a connected client for :ClaudeClients
  */
-interface DiffChangeHandlers {
-  acceptChanges: (changeId: string) => Promise<boolean>;
-  dropChanges: (changeId: string) => Promise<boolean>;
+export interface ClientInfo {
+  id: number;
+  name: string | null;
+  version: string | null;
+  remoteAddress: string;
+  connectedAt: number;
+  lastActivity: number;
+  pendingDiffs: number;
 }
 
+/**
+ * Claude MCP Server Manager
+ * Manages WebSocket server and MCP server instances for each connected client
+ */
 export class ClaudeMcpServerManager {
   private plugin: NvimPlugin;
   private wss: WebSocketServer | null = null;
-  private port: number;
-  private clientServers: Map<WebSocket, McpServer> = new Map();
-  private changeHandlers: DiffChangeHandlers[] = [];
+  private requestedPort: number | undefined; // Fixed port from ClaudeMcpServerStart, otherwise one of g:claude_port_range
+  private port = 0; // 0 while not listening on TCP
+  private socketPath: string | null = null; // Unix domain socket, with g:claude_transport = 'unix'
+  private lockFilePath = '';
+  private sessions: Map<WebSocket, ClientSession> = new Map();
+  private nextClientId = 1;
   private selectionTracking: Map<number, number> = new Map(); // bufnr -> autocmd id
   private lastSelectionBuffer: number | null = null; // Last buffer where selection was sent
-  private healthCheckIntervals: Map<WebSocket, NodeJS.Timeout> = new Map(); // Health check intervals per client
+  private followFocus = false; // Track the selection of whichever file buffer has focus
+  private selectionTimer: NodeJS.Timeout | null = null;
+  private selectionFlush: Promise<void> | null = null; // Selection update being gathered or sent
+  private selectionDebounceMs = 100;
+  private snapshots = new SnapshotStore(); // Copies of unsaved buffers sent in mentions
+  private workspaceFolders: string[] = []; // Folders announced in the lock file
+  private ideName = 'neovim'; // Name announced in the lock file
   private logger: Logger;
 
   constructor(plugin: NvimPlugin, port?: number) {
     this.plugin = plugin;
-    this.port = port || this.getRandomPort();
+    this.requestedPort = port || undefined;
     this.logger = new Logger(plugin, 'MCP');
   }
 
   /**
-   * Get a random port in the range 10000-65535
+   * Read g:claude_port_range, falling back to 10000-65535 when it isn't a valid [min, max] pair
    */
-  private getRandomPort(): number {
-    return Math.floor(Math.random() * (65535 - 10000 + 1)) + 10000;
+  private async getPortRange(): Promise<[number, number]> {
+    const range = await this.plugin.nvim.getVar('claude_port_range') as number[] | null;
+    if (Array.isArray(range) && range.length === 2 && range[0] >= 1 && range[0] <= range[1] && range[1] <= 65535) {
+      return [range[0], range[1]];
+    }
+    return [10000, 65535];
   }
 
   /**
@@ -47,20 +107,55 @@ export class ClaudeMcpServerManager {
       throw new Error('Server is already running');
     }
 
-    // Get workspace folders from Neovim
-    const cwd = await this.plugin.nvim.call('getcwd') as string;
+    // Lock files of crashed Neovims confuse Claude Code's IDE picker
+    const swept = sweepStaleLockFiles();
+    if (swept.length > 0) {
+      await this.logger.debug(`Removed stale lock files ${swept.join(', ')}`);
+    }
+
+    // Get workspace folders and a distinguishable name from Neovim
+    this.workspaceFolders = await getWorkspaceFolders(this.plugin.nvim);
+    this.ideName = await getIdeName(this.plugin.nvim);
+
+    // Come back on the endpoint this workspace used last time, so a running Claude CLI reconnects
+    const endpointState = await this.plugin.nvim.getVar('claude_sticky_endpoint') ? await EndpointState.forWorkspace(this.plugin.nvim) : null;
+    const endpoint = endpointState?.load() ?? null;
+    const authToken = endpoint?.authToken ?? randomUUID();
+
+    // Unix domain socket in Neovim's private run directory, optionally bridged to a TCP port
+    let socketPath: string | undefined;
+    if (await this.plugin.nvim.getVar('claude_transport') === 'unix') {
+      const runDir = await this.plugin.nvim.call('stdpath', ['run']) as string;
+      socketPath = join(runDir, 'claude-neovim', `${process.pid}.sock`);
+    }
 
     // Create WebSocket server with authentication
-    this.wss = createClaudeWebSocketServer({
-      port: this.port,
+    const server = await createClaudeWebSocketServer({
+      port: this.requestedPort,
+      preferredPort: endpoint?.port,
+      portRange: await this.getPortRange(),
+      socketPath,
+      bridge: Boolean(await this.plugin.nvim.getVar('claude_socket_bridge')),
       path: '/',
-      workspaceFolders: [cwd],
-      ideName: 'neovim'
+      workspaceFolders: this.workspaceFolders,
+      ideName: this.ideName,
+      authToken
     });
+    this.wss = server.wss;
+    this.port = server.port ?? 0;
+    this.socketPath = server.socketPath;
+    this.lockFilePath = server.lockFilePath;
+
+    if (endpointState && server.port !== null) {
+      if (endpoint && endpoint.port !== this.port && !this.requestedPort) {
+        await this.logger.warn(`Port ${endpoint.port} is in use, Claude has to reconnect to port ${this.port}`);
+      }
+      endpointState.save({ port: this.port, authToken });
+    }
 
     // Handle new client connections
-    this.wss.on('connection', (ws: WebSocket) => {
-      this.handleClient(ws);
+    this.wss.on('connection', (ws: WebSocket, request: IncomingMessage) => {
+      this.handleClient(ws, request);
     });
 
     // Handle errors
@@ -71,14 +166,27 @@ export class ClaudeMcpServerManager {
     // Save port to global variable
     await this.plugin.nvim.setVar('claude_ide_port', this.port);
 
-    await this.logger.info(`Server started on port ${this.port}`);
-    await this.logger.info(`Lock file: ~/.claude/ide/${this.port}.lock`);
+    if (this.socketPath) {
+      await this.logger.info(`Server started on ${this.socketPath}${this.port ? `, bridged from port ${this.port}` : ''}`);
+    } else {
+      await this.logger.info(`Server started on port ${this.port}`);
+    }
+    await this.logger.info(`Lock file: ${this.lockFilePath}`);
+
+    const debounceMs = await this.plugin.nvim.getVar('claude_selection_debounce_ms') as number | null;
+    if (typeof debounceMs === 'number' && debounceMs >= 0) {
+      this.selectionDebounceMs = debounceMs;
+    }
+
+    if (await this.plugin.nvim.getVar('claude_follow_focus')) {
+      await this.startFollowFocus();
+    }
   }
 
   /**
    * Handle a new client connection
    */
-  private async handleClient(ws: WebSocket): Promise<void> {
+  private async handleClient(ws: WebSocket, request: IncomingMessage): Promise<void> {
     try {
 
       // Create MCP server instance for this client
@@ -93,9 +201,44 @@ export class ClaudeMcpServerManager {
         await this.logger.warn('Unsafe Lua code execution is ENABLED via g:claude_unsafe_execute_lua');
       }
 
+      const clientId = this.nextClientId++;
+
       // Register all Neovim tools and get change handlers BEFORE connecting
-      const handlers = registerNvimMcpTools(this.plugin, mcpServer, this.logger, unsafeExecuteLua);
-      this.changeHandlers.push(handlers);
+      const handlers = registerNvimMcpTools(this.plugin, mcpServer, this.logger, unsafeExecuteLua, (event) => {
+        this.recordOutcome(session, event).catch(() => {});
+      });
+
+      const { remoteAddress, remotePort } = request.socket;
+      const session: ClientSession = {
+        id: clientId,
+        ws,
+        mcpServer,
+        handlers,
+        healthCheckInterval: null,
+        lastSelection: null,
+        clientInfo: null,
+        remoteAddress: remoteAddress ? `${remoteAddress}:${remotePort}` : 'unix socket',
+        connectedAt: Date.now(),
+        lastActivity: Date.now()
+      };
+
+      // Record which Claude client this is once it has initialized
+      mcpServer.server.oninitialized = () => {
+        const version = mcpServer.server.getClientVersion();
+        session.clientInfo = version ? { name: version.name, version: version.version } : null;
+        this.logger.info(`Client ${session.id} is ${version ? `${version.name} ${version.version}` : 'unknown'}`).catch(() => {});
+      };
+
+      // Replies to health check pings don't count as activity
+      ws.on('message', (data: Buffer) => {
+        try {
+          if ('method' in JSON.parse(data.toString('utf-8'))) {
+            session.lastActivity = Date.now();
+          }
+        } catch (error) {
+          // Malformed messages are reported by the transport
+        }
+      });
 
       // Create transport for this WebSocket with logging
       const transport = new WebSocketTransport(ws, this.logger.child('Transport'));
@@ -103,10 +246,10 @@ export class ClaudeMcpServerManager {
       // Connect MCP server to transport
       await mcpServer.connect(transport);
 
-      await this.logger.info('Client connected');
+      // Store the session
+      this.sessions.set(ws, session);
 
-      // Store the server instance
-      this.clientServers.set(ws, mcpServer);
+      await this.logger.info(`Client ${session.id} connected from ${session.remoteAddress}`);
 
       // Setup health check - ping every 3 seconds
       let pingId = 0;
@@ -137,20 +280,11 @@ export class ClaudeMcpServerManager {
         }
       }, 3000);
 
-      this.healthCheckIntervals.set(ws, healthCheckInterval);
+      session.healthCheckInterval = healthCheckInterval;
 
       // Handle client disconnect
       ws.on('close', async () => {
-        await this.logger.info('Client disconnected');
-
-        // Clear health check interval
-        const interval = this.healthCheckIntervals.get(ws);
-        if (interval) {
-          clearInterval(interval);
-          this.healthCheckIntervals.delete(ws);
-        }
-
-        this.clientServers.delete(ws);
+        await this.endSession(session);
       });
 
     } catch (error) {
@@ -160,6 +294,48 @@ export class ClaudeMcpServerManager {
     }
   }
 
+  /**
+   * Record the outcome of a pending diff in the workspace journal. Client ids restart with every
+   * server, so the client is recorded by name and version (or address) and when it connected.
+   */
+  private async recordOutcome(session: ClientSession, event: DiffSettledEvent): Promise<void> {
+    try {
+      const journal = await Journal.forWorkspace(this.plugin.nvim);
+      journal.append({
+        client: session.clientInfo ? `${session.clientInfo.name} ${session.clientInfo.version}` : session.remoteAddress,
+        clientConnectedAt: new Date(session.connectedAt).toISOString(),
+        ...event
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.logger.error(`Failed to write journal entry: ${message}`);
+    }
+  }
+
+  /**
+   * End a client session: stop its health check, unregister its handlers and orphan its pending diffs
+   */
+  private async endSession(session: ClientSession): Promise<void> {
+    if (this.sessions.get(session.ws) !== session) {
+      return; // Already ended
+    }
+
+    this.sessions.delete(session.ws);
+
+    if (session.healthCheckInterval) {
+      clearInterval(session.healthCheckInterval);
+    }
+
+    await this.logger.info(`Client ${session.id} disconnected`);
+
+    try {
+      await session.handlers.orphanAll();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Error orphaning diffs of client ${session.id}: ${message}`).catch(() => {});
+    }
+  }
+
   /**
    * Stop the Claude WebSocket server
    */
@@ -168,26 +344,23 @@ export class ClaudeMcpServerManager {
       throw new Error('Server is not running');
     }
 
+    if (this.selectionTimer) {
+      clearTimeout(this.selectionTimer);
+      this.selectionTimer = null;
+    }
+
     // Close all client connections
-    for (const [ws, mcpServer] of this.clientServers.entries()) {
+    for (const session of [...this.sessions.values()]) {
       try {
-        // Clear health check interval
-        const interval = this.healthCheckIntervals.get(ws);
-        if (interval) {
-          clearInterval(interval);
-        }
-
-        await mcpServer.close();
-        ws.close();
+        await this.endSession(session);
+        await session.mcpServer.close();
+        session.ws.close();
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         this.logger.warn(`Error closing client: ${message}`).catch(() => {});
       }
     }
 
-    this.clientServers.clear();
-    this.healthCheckIntervals.clear();
-
     // Close the WebSocket server
     await new Promise<void>((resolve, reject) => {
       this.wss!.close((err) => {
@@ -200,6 +373,7 @@ export class ClaudeMcpServerManager {
     });
 
     this.wss = null;
+    this.snapshots.cleanup();
 
     // Clear port from global variable
     await this.plugin.nvim.setVar('claude_ide_port', 0);
@@ -207,6 +381,27 @@ export class ClaudeMcpServerManager {
     await this.logger.info('Server stopped');
   }
 
+  /**
+   * Recompute the workspace folders and name and rewrite the lock file when they changed
+   */
+  async refreshLockFile(): Promise<void> {
+    if (!this.wss) {
+      return;
+    }
+
+    const folders = await getWorkspaceFolders(this.plugin.nvim);
+    const ideName = await getIdeName(this.plugin.nvim);
+    if (ideName === this.ideName && JSON.stringify(folders) === JSON.stringify(this.workspaceFolders)) {
+      return;
+    }
+
+    this.workspaceFolders = folders;
+    this.ideName = ideName;
+    updateLockFile(this.lockFilePath, { workspaceFolders: folders, ideName });
+    await this.logger.debug(`Lock file updated: ${ideName}, workspace folders ${folders.join(', ')}`);
+  }
+
+
   /**
    * Check if server is running
    */
@@ -214,6 +409,20 @@ export class ClaudeMcpServerManager {
     return this.wss !== null;
   }
 
+  /**
+   * Get the Unix domain socket the server listens on, if any
+   */
+  getSocketPath(): string | null {
+    return this.socketPath;
+  }
+
+  /**
+   * Get the lock file Claude Code discovers the server through
+   */
+  getLockFilePath(): string {
+    return this.lockFilePath;
+  }
+
   /**
    * Get the server port
    */
@@ -225,15 +434,84 @@ export class ClaudeMcpServerManager {
    * Get the number of connected clients
    */
   getClientCount(): number {
-    return this.clientServers.size;
+    return this.sessions.size;
+  }
+
+  /**
+   * List connected clients, in connection order
+   */
+  async listClients(): Promise<ClientInfo[]> {
+    const clients: ClientInfo[] = [];
+    for (const session of this.sessions.values()) {
+      clients.push({
+        id: session.id,
+        name: session.clientInfo?.name ?? null,
+        version: session.clientInfo?.version ?? null,
+        remoteAddress: session.remoteAddress,
+        connectedAt: session.connectedAt,
+        lastActivity: session.lastActivity,
+        pendingDiffs: (await session.handlers.listPendingDiffs()).length
+      });
+    }
+    return clients.sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Disconnect a client; its pending diffs are orphaned as on any disconnect
+   *
+   * @returns False when no client has this id
+   */
+  async disconnectClient(id: number): Promise<boolean> {
+    const session = [...this.sessions.values()].find(candidate => candidate.id === id);
+    if (!session) {
+      return false;
+    }
+
+    await this.endSession(session);
+    await session.mcpServer.close();
+    session.ws.close();
+    return true;
+  }
+
+  /**
+   * Reject every pending diff of a client
+   *
+   * @returns Number of dropped diffs, or null when no client has this id
+   */
+  async dropClientDiffs(id: number): Promise<number | null> {
+    const session = [...this.sessions.values()].find(candidate => candidate.id === id);
+    if (!session) {
+      return null;
+    }
+
+    let count = 0;
+    for (const diff of await session.handlers.listPendingDiffs()) {
+      if (await session.handlers.dropChanges(diff.changeId)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Accept changes for a given changeId, force skips the staleness, conflict, format and diagnostics checks
+   */
+  async acceptChanges(changeId: string, force = false): Promise<AcceptOutcome> {
+    for (const { handlers } of this.sessions.values()) {
+      const outcome = await handlers.acceptChanges(changeId, force);
+      if (outcome !== 'unknown') {
+        return outcome;
+      }
+    }
+    return 'unknown';
   }
 
   /**
-   * Accept changes for a given changeId
+   * Drop changes for a given changeId, optionally telling Claude why
    */
-  async acceptChanges(changeId: string): Promise<boolean> {
-    for (const handler of this.changeHandlers) {
-      if (await handler.acceptChanges(changeId)) {
+  async dropChanges(changeId: string, reason?: string): Promise<boolean> {
+    for (const { handlers } of this.sessions.values()) {
+      if (await handlers.dropChanges(changeId, reason)) {
         return true;
       }
     }
@@ -241,11 +519,18 @@ export class ClaudeMcpServerManager {
   }
 
   /**
-   * Drop changes for a given changeId
+   * Check whether a changeId belongs to a pending diff
    */
-  async dropChanges(changeId: string): Promise<boolean> {
-    for (const handler of this.changeHandlers) {
-      if (await handler.dropChanges(changeId)) {
+  hasChanges(changeId: string): boolean {
+    return [...this.sessions.values()].some(({ handlers }) => handlers.hasChanges(changeId));
+  }
+
+  /**
+   * Add a review comment to a pending diff, throws when the comment couldn't be attached
+   */
+  async addComment(changeId: string, line: number, endLine: number, text: string): Promise<boolean> {
+    for (const { handlers } of this.sessions.values()) {
+      if (await handlers.addComment(changeId, line, endLine, text)) {
         return true;
       }
     }
@@ -253,109 +538,183 @@ export class ClaudeMcpServerManager {
   }
 
   /**
-   * Send selection_changed notification to all connected clients
+   * List pending diffs of all connected clients, oldest first
    */
-  private async sendSelectionChanged(bufnr: number): Promise<void> {
-    if (!this.wss) {
-      return;
+  async listPendingDiffs(): Promise<Array<PendingDiffInfo & { clientId: number }>> {
+    const result: Array<PendingDiffInfo & { clientId: number }> = [];
+    for (const { id, handlers } of this.sessions.values()) {
+      for (const diff of await handlers.listPendingDiffs()) {
+        result.push({ ...diff, clientId: id });
+      }
     }
+    return result.sort((a, b) => a.createdAt - b.createdAt);
+  }
 
-    const nvim = this.plugin.nvim;
+  /**
+   * Accept every pending diff
+   *
+   * @returns How many were accepted, and the files of the diffs that are still pending
+   */
+  async acceptAll(): Promise<{ accepted: number; blocked: string[] }> {
+    let accepted = 0;
+    const blocked: string[] = [];
+    for (const diff of await this.listPendingDiffs()) {
+      const outcome = await this.acceptChanges(diff.changeId);
+      if (outcome === 'accepted') {
+        accepted++;
+      } else if (outcome === 'blocked') {
+        blocked.push(diff.filePath);
+      }
+    }
+    return { accepted, blocked };
+  }
 
-    try {
-      // Get buffer
-      const buffers = await nvim.buffers;
-      const buffer = buffers.find(buf => buf.id === bufnr);
-      if (!buffer) {
-        return;
+  /**
+   * Drop every pending diff
+   */
+  async dropAll(reason?: string): Promise<number> {
+    let count = 0;
+    for (const diff of await this.listPendingDiffs()) {
+      if (await this.dropChanges(diff.changeId, reason)) {
+        count++;
       }
+    }
+    return count;
+  }
 
-      // Get file path
-      const filePath = await buffer.name;
-      if (!filePath) {
-        return;
+  /**
+   * Accept the hunk at a buffer line for a given changeId
+   */
+  async acceptHunk(changeId: string, line: number): Promise<boolean> {
+    for (const { handlers } of this.sessions.values()) {
+      if (await handlers.acceptHunk(changeId, line)) {
+        return true;
       }
+    }
+    return false;
+  }
 
-      // Check if we're in visual mode
-      const mode = await nvim.mode;
-      const isVisual = mode.mode === 'v' || mode.mode === 'V' || mode.mode === '\x16';
-
-      let start: { line: number; character: number };
-      let end: { line: number; character: number };
-      let text = '';
-      let isEmpty = false;
-
-      if (isVisual) {
-        // Get current visual selection
-        const startPos = await nvim.call('getpos', ['v']) as [number, number, number, number];
-        const endPos = await nvim.call('getcurpos') as [number, number, number, number, number];
-
-        // Ensure start is before end
-        let startLine = startPos[1];
-        let startCol = startPos[2];
-        let endLine = endPos[1];
-        let endCol = endPos[2];
-
-        if (startLine > endLine || (startLine === endLine && startCol > endCol)) {
-          [startLine, startCol, endLine, endCol] = [endLine, endCol, startLine, startCol];
-        }
-
-        start = { line: startLine - 1, character: startCol - 1 };
-        end = { line: endLine - 1, character: endCol };
-        isEmpty = start.line === end.line && start.character === end.character;
-
-        // Get selected text
-        const lines = await nvim.call('getline', [startLine, endLine]) as string[];
-        if (lines.length === 1) {
-          text = lines[0].substring(startCol - 1, endCol);
-        } else if (lines.length > 1) {
-          text = lines[0].substring(startCol - 1) + '\n' +
-                 lines.slice(1, -1).join('\n') +
-                 (lines.length > 1 ? '\n' : '') +
-                 lines[lines.length - 1].substring(0, endCol);
-        }
-      } else {
-        // Not in visual mode, send cursor position as empty selection
-        const cursorPos = await nvim.call('getcurpos') as [number, number, number, number, number];
-        start = { line: cursorPos[1] - 1, character: cursorPos[2] - 1 };
-        end = { line: cursorPos[1] - 1, character: cursorPos[2] - 1 };
-        isEmpty = true;
-        text = '';
-      }
-
-      // Send notification to all clients
-      const notification = {
-        jsonrpc: '2.0' as const,
-        method: 'selection_changed',
-        params: {
-          text,
-          filePath,
-          fileUrl: `file://${filePath}`,
-          selection: {
-            start,
-            end,
-            isEmpty
-          }
-        }
-      };
+  /**
+   * Reject the hunk at a buffer line for a given changeId
+   */
+  async rejectHunk(changeId: string, line: number): Promise<boolean> {
+    for (const { handlers } of this.sessions.values()) {
+      if (await handlers.rejectHunk(changeId, line)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Accept all undecided hunks for a given changeId
+   */
+  async acceptRemaining(changeId: string): Promise<boolean> {
+    for (const { handlers } of this.sessions.values()) {
+      if (await handlers.acceptRemaining(changeId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Format the proposal of a given changeId
+   */
+  async formatChanges(changeId: string): Promise<boolean> {
+    for (const { handlers } of this.sessions.values()) {
+      if (await handlers.formatChanges(changeId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Send selection_changed to every client that hasn't seen this exact selection yet
+   */
+  private broadcastSelection(params: SelectionParams): void {
+    const notificationStr = JSON.stringify({
+      jsonrpc: '2.0' as const,
+      method: 'selection_changed',
+      params
+    });
 
-      const notificationStr = JSON.stringify(notification);
+    let sent = false;
+    for (const session of this.sessions.values()) {
+      if (session.ws.readyState === session.ws.OPEN && session.lastSelection !== notificationStr) {
+        session.ws.send(notificationStr);
+        session.lastSelection = notificationStr;
+        sent = true;
+      }
+    }
 
+    if (sent) {
       // Log outgoing message
-      await this.logger.debug(`Selection changed: ${notificationStr}`);
+      this.logger.debug(`Selection changed: ${notificationStr}`).catch(() => {});
+    }
+  }
+
+  /**
+   * Schedule a selection update. Events arriving within g:claude_selection_debounce_ms
+   * are coalesced into a single update that reads the state once it has settled.
+   */
+  scheduleSelectionUpdate(): void {
+    if (this.selectionTimer) {
+      clearTimeout(this.selectionTimer);
+    }
 
-      for (const ws of this.clientServers.keys()) {
-        if (ws.readyState === ws.OPEN) {
-          ws.send(notificationStr);
+    this.selectionTimer = setTimeout(() => {
+      this.selectionTimer = null;
+      const flush: Promise<void> = this.flushSelectionUpdate().catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Error sending selection: ${message}`).catch(() => {});
+      }).finally(() => {
+        if (this.selectionFlush === flush) {
+          this.selectionFlush = null;
         }
-      }
+      });
+      this.selectionFlush = flush;
+    }, this.selectionDebounceMs);
+  }
 
-      // Remember the buffer we sent selection for
-      this.lastSelectionBuffer = bufnr;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      this.logger.warn(`Error sending selection: ${message}`).catch(() => {});
+  /**
+   * Drop the scheduled selection update and wait for the one in flight, so that nothing
+   * sent afterwards is overtaken by an older selection
+   */
+  private async settleSelectionUpdates(): Promise<void> {
+    if (this.selectionTimer) {
+      clearTimeout(this.selectionTimer);
+      this.selectionTimer = null;
+    }
+
+    while (this.selectionFlush) {
+      await this.selectionFlush;
+    }
+  }
+
+  /**
+   * Send the selection of the focused buffer if it is tracked
+   */
+  private async flushSelectionUpdate(): Promise<void> {
+    if (!this.wss || this.sessions.size === 0) {
+      return;
+    }
+
+    const state = await getSelectionState(this.plugin.nvim);
+    if (!state.name) {
+      return;
+    }
+
+    const tracked = this.selectionTracking.has(state.bufnr) || (this.followFocus && this.isFollowable(state));
+    if (!tracked) {
+      return;
     }
+
+    this.broadcastSelection(buildSelectionParams(state));
+
+    // Remember the buffer we sent selection for
+    this.lastSelectionBuffer = state.bufnr;
   }
 
   /**
@@ -369,50 +728,15 @@ export class ClaudeMcpServerManager {
     const nvim = this.plugin.nvim;
 
     try {
-      // Get buffer
-      const buffers = await nvim.buffers;
-      const buffer = buffers.find(buf => buf.id === bufnr);
-      if (!buffer) {
-        return;
-      }
-
-      // Get file path
-      const filePath = await buffer.name;
+      const filePath = await nvim.call('nvim_buf_get_name', [bufnr]) as string;
       if (!filePath) {
         return;
       }
 
-      // Get cursor position
-      const cursorPos = await nvim.call('getcurpos') as [number, number, number, number, number];
-      const start = { line: cursorPos[1] - 1, character: cursorPos[2] - 1 };
-      const end = { line: cursorPos[1] - 1, character: cursorPos[2] - 1 };
-
-      // Send empty selection notification
-      const notification = {
-        jsonrpc: '2.0' as const,
-        method: 'selection_changed',
-        params: {
-          text: '',
-          filePath,
-          fileUrl: `file://${filePath}`,
-          selection: {
-            start,
-            end,
-            isEmpty: true
-          }
-        }
-      };
-
-      const notificationStr = JSON.stringify(notification);
-
-      // Log outgoing message
-      await this.logger.debug(`Selection changed: ${notificationStr}`);
-
-      for (const ws of this.clientServers.keys()) {
-        if (ws.readyState === ws.OPEN) {
-          ws.send(notificationStr);
-        }
-      }
+      // Keep the cursor position when the buffer still has focus
+      const state = await getSelectionState(nvim);
+      const cursor = state.bufnr === bufnr ? state.cursor : { line: 0, character: 0 };
+      this.broadcastSelection(emptySelectionParams(filePath, cursor.line, cursor.character));
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       this.logger.warn(`Error sending empty selection: ${message}`).catch(() => {});
@@ -453,14 +777,102 @@ export class ClaudeMcpServerManager {
   }
 
   /**
-   * Check if buffer is being tracked and send selection update
+   * Start following the focused window: selection is tracked in every file buffer that gets focus
    */
-  async handleSelectionUpdate(bufnr: number): Promise<void> {
-    if (!this.selectionTracking.has(bufnr)) {
+  async startFollowFocus(): Promise<void> {
+    if (this.followFocus) {
+      return;
+    }
+
+    this.followFocus = true;
+    await this.logger.info('Started follow-focus selection tracking');
+
+    this.scheduleSelectionUpdate();
+  }
+
+  /**
+   * Stop following the focused window, clearing the selection Claude sees
+   */
+  async stopFollowFocus(): Promise<void> {
+    if (!this.followFocus) {
       return;
     }
 
-    await this.sendSelectionChanged(bufnr);
+    this.followFocus = false;
+    await this.settleSelectionUpdates();
+
+    // Buffers tracked with ClaudeStartSelectionTracking keep their selection
+    if (this.lastSelectionBuffer !== null && !this.selectionTracking.has(this.lastSelectionBuffer)) {
+      await this.sendEmptySelection(this.lastSelectionBuffer);
+      this.lastSelectionBuffer = null;
+    }
+
+    // The dropped update may have been for one of those buffers
+    if (this.selectionTracking.size > 0) {
+      this.scheduleSelectionUpdate();
+    }
+
+    await this.logger.info('Stopped follow-focus selection tracking');
+  }
+
+  /**
+   * Whether follow-focus mode is on
+   */
+  isFollowingFocus(): boolean {
+    return this.followFocus;
+  }
+
+  /**
+   * Check if a buffer is a real file that follow-focus mode should report.
+   * Skips special buffers (help, terminal, quickfix, scratch), URL-like names, Claude's diff
+   * proposals and filetypes filtered by g:claude_follow_focus_filetypes and
+   * g:claude_follow_focus_exclude_filetypes.
+   */
+  private isFollowable(state: SelectionState): boolean {
+    if (state.buftype !== '' || /^[a-zA-Z][\w+.-]*:\/\//.test(state.name)) {
+      return false;
+    }
+    if (this.hasChanges(`${state.pid}/${state.bufnr}`)) {
+      return false;
+    }
+
+    const include = state.followFiletypes;
+    if (Array.isArray(include) && include.length > 0 && !include.includes(state.filetype)) {
+      return false;
+    }
+    return !(Array.isArray(state.followExcludeFiletypes) && state.followExcludeFiletypes.includes(state.filetype));
+  }
+
+  /**
+   * File to mention for a buffer. Buffers with unsaved changes and unnamed buffers are written
+   * to a snapshot, so Claude reads what is on screen, unless g:claude_mention_snapshots is false.
+   *
+   * @returns The path ('' when the buffer can't be mentioned) and whether it misses unsaved changes
+   */
+  async mentionPath(bufnr: number): Promise<{ filePath: string; stale: boolean }> {
+    const snapshots = await this.plugin.nvim.getVar('claude_mention_snapshots') as boolean | number | null;
+    return await this.snapshots.mentionPath(this.plugin.nvim, bufnr, snapshots !== false && snapshots !== 0);
+  }
+
+  /**
+   * Send a batch of mentions in order, skipping duplicates. When the batch has a report,
+   * it is written next to the snapshots and mentioned first.
+   *
+   * @param kind - What the batch holds, part of the report's file name
+   */
+  async sendMentionBatch(kind: string, batch: MentionBatch): Promise<void> {
+    if (batch.report.length > 0) {
+      await this.sendAtMention({ filePath: this.snapshots.writeReport(kind, batch.report) });
+    }
+
+    const sent = new Set<string>();
+    for (const mention of batch.mentions) {
+      const key = JSON.stringify(mention);
+      if (!sent.has(key)) {
+        sent.add(key);
+        await this.sendAtMention(mention);
+      }
+    }
   }
 
   /**
@@ -482,7 +894,7 @@ export class ClaudeMcpServerManager {
     // Log outgoing message
     await this.logger.debug(`At-mention: ${notificationStr}`);
 
-    for (const ws of this.clientServers.keys()) {
+    for (const ws of this.sessions.keys()) {
       if (ws.readyState === ws.OPEN) {
         ws.send(notificationStr);
       }
@@ -491,9 +903,138 @@ export class ClaudeMcpServerManager {
 }
 
 /**
- * Global server manager instance
+ * Format the age of a pending diff for review lists
  */
-let serverManager: ClaudeMcpServerManager | null = null;
+function formatAge(createdAt: number): string {
+  const seconds = Math.floor((Date.now() - createdAt) / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m`;
+  }
+  return `${Math.floor(seconds / 3600)}h`;
+}
+
+/**
+ * Bring a diff buffer into view and put the cursor on its first change
+ */
+async function showDiffBuffer(plugin: NvimPlugin, bufnr: number, line: number): Promise<void> {
+  const exists = await plugin.nvim.call('exists', [':ClaudeActivateBufferDiff']) as number;
+  if (exists === 2) {
+    await plugin.nvim.command(`ClaudeActivateBufferDiff ${bufnr}`);
+  } else {
+    await plugin.nvim.command(`buffer ${bufnr}`);
+  }
+  await plugin.nvim.call('cursor', [line, 1]);
+}
+
+/**
+ * Fill the current buffer with read-only scratch content
+ */
+async function fillScratchBuffer(plugin: NvimPlugin, name: string, lines: string[], filePath: string): Promise<number> {
+  const buffer = await plugin.nvim.buffer;
+
+  await buffer.setOption('buftype', 'nofile');
+  await buffer.setOption('bufhidden', 'wipe');
+  await buffer.setOption('swapfile', false);
+  await buffer.setLines(lines, { start: 0, end: -1, strictIndexing: false });
+  buffer.name = name;
+  await buffer.setOption('modifiable', false);
+  await plugin.nvim.lua('local buf, path = ...; local ft = vim.filetype.match({ filename = path }); if ft then vim.bo[buf].filetype = ft end', [buffer.id, filePath]);
+
+  return buffer.id;
+}
+
+/**
+ * Path of a file relative to the working directory, when it lies inside it
+ */
+function displayPath(filePath: string, cwd: string): string {
+  return filePath.startsWith(cwd + '/') ? filePath.slice(cwd.length + 1) : filePath;
+}
+
+/**
+ * Diff views of revert proposals opened by ClaudeHistoryRevert, by proposal buffer
+ */
+const revertViews: Map<number, DiffView> = new Map();
+
+/**
+ * Reopen the client list, if it is open, after a client changed
+ */
+async function refreshClientsView(plugin: NvimPlugin): Promise<void> {
+  if (await plugin.nvim.call('bufnr', ['^claude://clients$']) !== -1) {
+    await plugin.nvim.command('ClaudeClients');
+  }
+}
+
+/**
+ * Mentions collected with the ClaudeBasket commands, kept across server restarts
+ */
+let contextBasket: ContextBasket | null = null;
+
+/**
+ * The context basket, created on first use
+ */
+function getContextBasket(plugin: NvimPlugin): ContextBasket {
+  if (!contextBasket) {
+    contextBasket = new ContextBasket(plugin.nvim);
+  }
+  return contextBasket;
+}
+
+/**
+ * One line of the basket view: "[id] path:lines  kind  note", with 1-based lines
+ */
+function formatBasketEntry(entry: BasketEntry, cwd: string): string {
+  let location = displayPath(entry.filePath, cwd);
+  if (entry.lineStart !== undefined && entry.lineEnd !== undefined) {
+    location += entry.lineStart === entry.lineEnd
+      ? `:${entry.lineStart + 1}`
+      : `:${entry.lineStart + 1}-${entry.lineEnd + 1}`;
+  }
+
+  const note = entry.note ? `  ${entry.note.replace(/\s+/g, ' ')}` : '';
+  return `[${entry.id}] ${location}  ${entry.kind}${note}`;
+}
+
+/**
+ * Redraw the basket view, if it is open and has no unwritten edits
+ */
+async function refreshBasketView(plugin: NvimPlugin): Promise<void> {
+  const nvim = plugin.nvim;
+  const bufnr = await nvim.call('bufnr', ['^claude://basket$']) as number;
+  if (bufnr === -1 || await nvim.call('getbufvar', [bufnr, '&modified'])) {
+    return;
+  }
+
+  const cwd = await nvim.call('getcwd') as string;
+  const entries = await getContextBasket(plugin).list();
+  await nvim.call('nvim_buf_set_lines', [bufnr, 0, -1, false, entries.map(entry => formatBasketEntry(entry, cwd))]);
+  await nvim.call('setbufvar', [bufnr, '&modified', 0]);
+}
+
+/**
+ * Current buffer as a basket target, warning when it has no file.
+ * Unsaved changes are snapshotted when the basket is sent.
+ *
+ * @returns The buffer and its file, or null when it can't be mentioned
+ */
+async function currentBasketTarget(plugin: NvimPlugin): Promise<{ bufnr: number; filePath: string } | null> {
+  const buffer = await plugin.nvim.buffer;
+  const filePath = await buffer.name;
+
+  if (!filePath) {
+    await plugin.nvim.call('nvim_echo', [[['Buffer has no file path', 'WarningMsg']], true, {}]);
+    return null;
+  }
+
+  return { bufnr: buffer.id, filePath };
+}
+
+/**
+ * Global server manager instance
+ */
+let serverManager: ClaudeMcpServerManager | null = null;
 
 /**
  * Global logger instance for commands
@@ -515,8 +1056,7 @@ export function registerClaudeMcpCommands(plugin: NvimPlugin): void {
       if (!serverManager || !serverManager.isRunning()) {
         return;
       }
-      const bufnr = (await plugin.nvim.buffer).id;
-      await serverManager.handleSelectionUpdate(bufnr);
+      serverManager.scheduleSelectionUpdate();
     },
     {
       pattern: '*',
@@ -530,8 +1070,7 @@ export function registerClaudeMcpCommands(plugin: NvimPlugin): void {
       if (!serverManager || !serverManager.isRunning()) {
         return;
       }
-      const bufnr = (await plugin.nvim.buffer).id;
-      await serverManager.handleSelectionUpdate(bufnr);
+      serverManager.scheduleSelectionUpdate();
     },
     {
       pattern: '*',
@@ -545,8 +1084,35 @@ export function registerClaudeMcpCommands(plugin: NvimPlugin): void {
       if (!serverManager || !serverManager.isRunning()) {
         return;
       }
-      const bufnr = (await plugin.nvim.buffer).id;
-      await serverManager.handleSelectionUpdate(bufnr);
+      serverManager.scheduleSelectionUpdate();
+    },
+    {
+      pattern: '*',
+      sync: false
+    }
+  );
+
+  plugin.registerAutocmd(
+    'BufEnter',
+    async () => {
+      if (!serverManager || !serverManager.isRunning()) {
+        return;
+      }
+      serverManager.scheduleSelectionUpdate();
+    },
+    {
+      pattern: '*',
+      sync: false
+    }
+  );
+
+  plugin.registerAutocmd(
+    'WinEnter',
+    async () => {
+      if (!serverManager || !serverManager.isRunning()) {
+        return;
+      }
+      serverManager.scheduleSelectionUpdate();
     },
     {
       pattern: '*',
@@ -554,6 +1120,42 @@ export function registerClaudeMcpCommands(plugin: NvimPlugin): void {
     }
   );
 
+  plugin.registerAutocmd(
+    'ModeChanged',
+    async () => {
+      if (!serverManager || !serverManager.isRunning()) {
+        return;
+      }
+      serverManager.scheduleSelectionUpdate();
+    },
+    {
+      pattern: '*',
+      sync: false
+    }
+  );
+
+  // Keep the workspace folders and name in the lock file up to date
+  for (const event of ['DirChanged', 'LspAttach', 'TabEnter']) {
+    plugin.registerAutocmd(
+      event,
+      async () => {
+        if (!serverManager || !serverManager.isRunning()) {
+          return;
+        }
+        try {
+          await serverManager.refreshLockFile();
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          commandLogger?.error(`Error updating lock file: ${message}`).catch(() => {});
+        }
+      },
+      {
+        pattern: '*',
+        sync: false
+      }
+    );
+  }
+
   // Register VimLeavePre autocmd to stop server when Neovim closes
   plugin.registerAutocmd(
     'VimLeavePre',
@@ -636,9 +1238,23 @@ export function registerClaudeMcpCommands(plugin: NvimPlugin): void {
         const clients = serverManager.getClientCount();
 
         await commandLogger?.info('Claude MCP Server: Running');
-        await commandLogger?.info(`Port: ${port}`);
+        await commandLogger?.info(`Port: ${port || 'none'}`);
+        const socketPath = serverManager.getSocketPath();
+        if (socketPath) {
+          await commandLogger?.info(`Socket: ${socketPath}`);
+        }
         await commandLogger?.info(`Connected clients: ${clients}`);
-        await commandLogger?.info(`Lock file: ~/.claude/ide/${port}.lock`);
+        await commandLogger?.info(`Lock file: ${serverManager.getLockFilePath()}`);
+
+        // What Claude Code reads from the lock file
+        const lockData = readLockFile(serverManager.getLockFilePath());
+        if (lockData) {
+          await commandLogger?.info(`IDE name: ${lockData.ideName}`);
+          await commandLogger?.info(`Workspace folders: ${lockData.workspaceFolders.join(', ')}`);
+          await commandLogger?.info(`Transport: ${lockData.transport}${lockData.socketPath ? ` (${lockData.socketPath})` : ''}`);
+        } else {
+          await commandLogger?.warn('Lock file is missing, Claude Code cannot discover this server');
+        }
 
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -650,38 +1266,36 @@ export function registerClaudeMcpCommands(plugin: NvimPlugin): void {
     }
   );
 
-  // Command: ClaudeAccept
+  // Command: ClaudeMcpServerRename [label] - set the label shown in Claude Code's IDE picker
   plugin.registerCommand(
-    'ClaudeAccept',
-    async () => {
+    'ClaudeMcpServerRename',
+    async (args: string[]) => {
       try {
+        const label = args.join(' ').trim();
+        await plugin.nvim.setVar('claude_instance_label', label);
+
         if (!serverManager || !serverManager.isRunning()) {
-          await commandLogger?.warn('Claude MCP Server is not running');
+          await commandLogger?.info(`Label set to "${label}", it is used when the server starts`);
           return;
         }
 
-        const buffer = await plugin.nvim.buffer;
-        const bufnr = buffer.id;
-        const pid = await plugin.nvim.call('getpid') as number;
-        const changeId = `${pid}/${bufnr}`;
-
-        const handled = await serverManager.acceptChanges(changeId);
-        if (!handled) {
-          await commandLogger?.warn('This is not a claude code diff');
-        }
+        await serverManager.refreshLockFile();
+        const lockData = readLockFile(serverManager.getLockFilePath());
+        await commandLogger?.info(`Claude Code now sees this Neovim as "${lockData?.ideName ?? label}"`);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
-        await commandLogger?.error(`Error accepting changes: ${message}`);
+        await commandLogger?.error(`Error renaming Claude MCP Server: ${message}`);
       }
     },
     {
+      nargs: '*',
       sync: false
     }
   );
 
-  // Command: ClaudeDrop
+  // Command: ClaudeClients - list connected Claude clients
   plugin.registerCommand(
-    'ClaudeDrop',
+    'ClaudeClients',
     async () => {
       try {
         if (!serverManager || !serverManager.isRunning()) {
@@ -689,18 +1303,41 @@ export function registerClaudeMcpCommands(plugin: NvimPlugin): void {
           return;
         }
 
-        const buffer = await plugin.nvim.buffer;
-        const bufnr = buffer.id;
-        const pid = await plugin.nvim.call('getpid') as number;
-        const changeId = `${pid}/${bufnr}`;
+        const nvim = plugin.nvim;
+        const clients = await serverManager.listClients();
+        const existing = await nvim.call('bufnr', ['^claude://clients$']) as number;
 
-        const handled = await serverManager.dropChanges(changeId);
-        if (!handled) {
-          await commandLogger?.warn('This is not a claude code diff');
+        if (clients.length === 0) {
+          if (existing !== -1) {
+            await nvim.command(`bwipeout! ${existing}`);
+          }
+          await commandLogger?.info('No Claude clients connected');
+          return;
+        }
+
+        const lines = clients.map(client => {
+          const name = client.name ? `${client.name} ${client.version ?? ''}`.trim() : 'not initialized';
+          const connected = new Date(client.connectedAt).toTimeString().slice(0, 8);
+          const pending = `${client.pendingDiffs} pending ${client.pendingDiffs === 1 ? 'diff' : 'diffs'}`;
+          return `${client.id}  ${name}  ${client.remoteAddress}  connected ${connected} (${formatAge(client.connectedAt)})  active ${formatAge(client.lastActivity)} ago  ${pending}`;
+        });
+
+        if (existing !== -1) {
+          await nvim.command(`bwipeout! ${existing}`);
         }
+
+        await nvim.command('botright 8new');
+        const bufnr = await fillScratchBuffer(plugin, 'claude://clients', lines, '');
+        await nvim.call('setbufvar', [bufnr, 'claude_client_ids', clients.map(client => client.id)]);
+
+        const keymapOptions = { noremap: true, silent: true };
+        await nvim.call('nvim_buf_set_keymap', [bufnr, 'n', 'd', "<Cmd>execute 'ClaudeClientDisconnect' b:claude_client_ids[line('.') - 1]<CR>", keymapOptions]);
+        await nvim.call('nvim_buf_set_keymap', [bufnr, 'n', 'D', "<Cmd>execute 'ClaudeClientDropDiffs' b:claude_client_ids[line('.') - 1]<CR>", keymapOptions]);
+        await nvim.call('nvim_buf_set_keymap', [bufnr, 'n', 'r', '<Cmd>ClaudeClients<CR>', keymapOptions]);
+        await nvim.call('nvim_buf_set_keymap', [bufnr, 'n', 'q', '<Cmd>close<CR>', keymapOptions]);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
-        await commandLogger?.error(`Error dropping changes: ${message}`);
+        await commandLogger?.error(`Error listing clients: ${message}`);
       }
     },
     {
@@ -708,31 +1345,37 @@ export function registerClaudeMcpCommands(plugin: NvimPlugin): void {
     }
   );
 
-  // Autocmd: BufWipeout - automatically drop changes when diff buffer is wiped out
-  plugin.registerAutocmd(
-    'BufWipeout',
-    async (bufnrStr: string) => {
-      if (!serverManager || !serverManager.isRunning()) {
-        return;
-      }
+  // Command: ClaudeClientDisconnect {id} - disconnect a Claude client
+  plugin.registerCommand(
+    'ClaudeClientDisconnect',
+    async (args: string[]) => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await commandLogger?.warn('Claude MCP Server is not running');
+          return;
+        }
 
-      const bufnr = parseInt(bufnrStr);
-      const pid = await plugin.nvim.call('getpid') as number;
-      const changeId = `${pid}/${bufnr}`;
+        const id = parseInt(args[0], 10);
+        if (!await serverManager.disconnectClient(id)) {
+          await commandLogger?.warn(`No Claude client ${args[0]}`);
+          return;
+        }
 
-      await serverManager.dropChanges(changeId);
-      await serverManager.stopSelectionTracking(bufnr);
+        await refreshClientsView(plugin);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Error disconnecting client: ${message}`);
+      }
     },
     {
-      pattern: '*',
-      eval: 'expand("<abuf>")',
+      nargs: '1',
       sync: false
     }
   );
 
-  // Command: ClaudeStartSelectionTracking
+  // Command: ClaudeClientDropDiffs {id} - reject every pending diff of a Claude client
   plugin.registerCommand(
-    'ClaudeStartSelectionTracking',
+    'ClaudeClientDropDiffs',
     async (args: string[]) => {
       try {
         if (!serverManager || !serverManager.isRunning()) {
@@ -740,23 +1383,108 @@ export function registerClaudeMcpCommands(plugin: NvimPlugin): void {
           return;
         }
 
-        const bufnr = args[0] ? parseInt(args[0], 10) : (await plugin.nvim.buffer).id;
-        await serverManager.startSelectionTracking(bufnr);
+        const count = await serverManager.dropClientDiffs(parseInt(args[0], 10));
+        if (count === null) {
+          await commandLogger?.warn(`No Claude client ${args[0]}`);
+          return;
+        }
 
+        await commandLogger?.info(`Dropped ${count} pending ${count === 1 ? 'diff' : 'diffs'} of client ${args[0]}`);
+        await refreshClientsView(plugin);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
-        await commandLogger?.error(`Failed to start selection tracking: ${message}`);
+        await commandLogger?.error(`Error dropping client diffs: ${message}`);
       }
     },
     {
-      nargs: '?',
+      nargs: '1',
       sync: false
     }
   );
 
-  // Command: ClaudeStopSelectionTracking
+  // Command: ClaudeWorkspacePin / ClaudeWorkspaceUnpin [dir] - add or remove a root in g:claude_workspace_folders
+  for (const [name, pin] of [['ClaudeWorkspacePin', true], ['ClaudeWorkspaceUnpin', false]] as const) {
+    plugin.registerCommand(
+      name,
+      async (args: string[]) => {
+        try {
+          const nvim = plugin.nvim;
+          const absolute = async (path: string): Promise<string> =>
+            (await nvim.call('fnamemodify', [await nvim.call('expand', [path]), ':p']) as string).replace(/(.)\/$/, '$1');
+
+          const dir = await absolute(args[0] || '.');
+          const pinned = (await nvim.getVar('claude_workspace_folders') as string[] | null) ?? [];
+          const resolved = await Promise.all(pinned.map(absolute));
+
+          if (pin && !resolved.includes(dir)) {
+            await nvim.setVar('claude_workspace_folders', [...pinned, dir]);
+          } else if (!pin) {
+            await nvim.setVar('claude_workspace_folders', pinned.filter((_, index) => resolved[index] !== dir));
+          }
+
+          await serverManager?.refreshLockFile();
+          await commandLogger?.info(`${pin ? 'Pinned' : 'Unpinned'} workspace folder ${dir}`);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          await commandLogger?.error(`Error updating pinned workspace folders: ${message}`);
+        }
+      },
+      {
+        nargs: '?',
+        complete: 'dir',
+        sync: false
+      }
+    );
+  }
+
+  // Accept the diff in the current buffer, force skips the checks that hold a proposal back for review
+  const acceptCurrentDiff = async (force: boolean): Promise<void> => {
+    try {
+      if (!serverManager || !serverManager.isRunning()) {
+        await commandLogger?.warn('Claude MCP Server is not running');
+        return;
+      }
+
+      const buffer = await plugin.nvim.buffer;
+      const bufnr = buffer.id;
+      const pid = await plugin.nvim.call('getpid') as number;
+      const changeId = `${pid}/${bufnr}`;
+
+      const outcome = await serverManager.acceptChanges(changeId, force);
+      if (outcome === 'unknown') {
+        await commandLogger?.warn('This is not a claude code diff');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await commandLogger?.error(`Error accepting changes: ${message}`);
+    }
+  };
+
+  // Command: ClaudeAccept
   plugin.registerCommand(
-    'ClaudeStopSelectionTracking',
+    'ClaudeAccept',
+    async () => {
+      await acceptCurrentDiff(false);
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeAcceptForce - accept even when a check would hold the proposal back
+  plugin.registerCommand(
+    'ClaudeAcceptForce',
+    async () => {
+      await acceptCurrentDiff(true);
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeDrop
+  plugin.registerCommand(
+    'ClaudeDrop',
     async (args: string[]) => {
       try {
         if (!serverManager || !serverManager.isRunning()) {
@@ -764,86 +1492,785 @@ export function registerClaudeMcpCommands(plugin: NvimPlugin): void {
           return;
         }
 
-        const bufnr = args[0] ? parseInt(args[0], 10) : (await plugin.nvim.buffer).id;
-        await serverManager.stopSelectionTracking(bufnr);
+        const buffer = await plugin.nvim.buffer;
+        const bufnr = buffer.id;
+        const pid = await plugin.nvim.call('getpid') as number;
+        const changeId = `${pid}/${bufnr}`;
+        const reason = args.join(' ').trim();
 
+        const handled = await serverManager.dropChanges(changeId, reason || undefined);
+        if (!handled) {
+          await commandLogger?.warn('This is not a claude code diff');
+        }
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
-        await commandLogger?.error(`Failed to stop selection tracking: ${message}`);
+        await commandLogger?.error(`Error dropping changes: ${message}`);
       }
     },
     {
-      nargs: '?',
+      nargs: '*',
       sync: false
     }
   );
 
-  // Command: ClaudeMention
+  // Command: ClaudeDropReason - open a scratch buffer for the rejection reason, writing it drops the diff
   plugin.registerCommand(
-    'ClaudeMention',
+    'ClaudeDropReason',
     async () => {
       try {
         if (!serverManager || !serverManager.isRunning()) {
-          await plugin.nvim.call('nvim_echo', [[['Claude MCP Server is not running', 'WarningMsg']], true, {}]);
+          await commandLogger?.warn('Claude MCP Server is not running');
           return;
         }
 
-        const buffer = await plugin.nvim.buffer;
-        const filePath = await buffer.name;
+        const nvim = plugin.nvim;
+        const buffer = await nvim.buffer;
+        const pid = await nvim.call('getpid') as number;
+        const target = await nvim.call('getbufvar', [buffer.id, 'claude_drop_target', 0]) as number;
 
-        if (!filePath) {
-          await plugin.nvim.call('nvim_echo', [[['Buffer has no file path', 'WarningMsg']], true, {}]);
-          return;
-        }
+        if (target) {
+          // Called from the reason buffer: submit it
+          const reason = (await buffer.lines).join('\n').trim();
+          await nvim.command(`bwipeout! ${buffer.id}`);
 
-        // Check if buffer is modified
-        const isModified = await plugin.nvim.call('getbufvar', [buffer.id, '&modified']) as number;
-        if (isModified) {
-          await plugin.nvim.call('nvim_echo', [[['Buffer has unsaved changes', 'WarningMsg']], true, {}]);
+          const handled = await serverManager.dropChanges(`${pid}/${target}`, reason || undefined);
+          if (!handled) {
+            await commandLogger?.warn('Claude code diff is no longer pending');
+          }
+          return;
         }
 
-        // Get visual selection marks
-        const startPos = await plugin.nvim.call('getpos', ["'<"]) as [number, number, number, number];
-        const endPos = await plugin.nvim.call('getpos', ["'>"]) as [number, number, number, number];
-
-        if (startPos[1] === 0 || endPos[1] === 0) {
-          await plugin.nvim.call('nvim_echo', [[['No visual selection', 'WarningMsg']], true, {}]);
+        if (!serverManager.hasChanges(`${pid}/${buffer.id}`)) {
+          await commandLogger?.warn('This is not a claude code diff');
           return;
         }
 
-        // Convert from 1-indexed (Vim) to 0-indexed (at_mentioned)
-        const lineStart = startPos[1] - 1;
-        const lineEnd = endPos[1] - 1;
+        await nvim.command('botright 5new');
+        const reasonBuffer = await nvim.buffer;
 
-        await serverManager.sendAtMention({ filePath, lineStart, lineEnd });
+        await reasonBuffer.setOption('buftype', 'acwrite');
+        await reasonBuffer.setOption('bufhidden', 'wipe');
+        await reasonBuffer.setOption('swapfile', false);
+        reasonBuffer.name = `claude://drop-reason/${buffer.id}`;
+        await reasonBuffer.setVar('claude_drop_target', buffer.id);
 
+        await nvim.command(`autocmd BufWriteCmd <buffer=${reasonBuffer.id}> ClaudeDropReason`);
+        await nvim.call('nvim_echo', [[['Write the rejection reason and :w to send it to Claude', 'MoreMsg']], false, {}]);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
-        await plugin.nvim.call('nvim_echo', [[['Failed to send at-mention: ' + message, 'ErrorMsg']], true, {}]);
+        await commandLogger?.error(`Error dropping changes: ${message}`);
       }
     },
     {
-      range: '',
       sync: false
     }
   );
 
-  // Command: ClaudeMentionFile
+  // Command: ClaudeComment
   plugin.registerCommand(
-    'ClaudeMentionFile',
-    async () => {
+    'ClaudeComment',
+    async (args: string[], range: [number, number]) => {
       try {
         if (!serverManager || !serverManager.isRunning()) {
-          await plugin.nvim.call('nvim_echo', [[['Claude MCP Server is not running', 'WarningMsg']], true, {}]);
+          await commandLogger?.warn('Claude MCP Server is not running');
           return;
         }
 
         const buffer = await plugin.nvim.buffer;
-        const filePath = await buffer.name;
+        const bufnr = buffer.id;
+        const pid = await plugin.nvim.call('getpid') as number;
+        const changeId = `${pid}/${bufnr}`;
+        const [line, endLine] = range;
 
-        if (!filePath) {
-          await plugin.nvim.call('nvim_echo', [[['Buffer has no file path', 'WarningMsg']], true, {}]);
-          return;
+        const handled = await serverManager.addComment(changeId, line, endLine, args.join(' '));
+        if (!handled) {
+          await commandLogger?.warn('This is not a claude code diff');
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Comment not added: ${message}`);
+      }
+    },
+    {
+      nargs: '+',
+      range: '',
+      sync: false
+    }
+  );
+
+  // Command: ClaudeAcceptHunk
+  plugin.registerCommand(
+    'ClaudeAcceptHunk',
+    async () => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await commandLogger?.warn('Claude MCP Server is not running');
+          return;
+        }
+
+        const buffer = await plugin.nvim.buffer;
+        const bufnr = buffer.id;
+        const pid = await plugin.nvim.call('getpid') as number;
+        const changeId = `${pid}/${bufnr}`;
+        const line = await plugin.nvim.call('line', ['.']) as number;
+
+        const handled = await serverManager.acceptHunk(changeId, line);
+        if (!handled) {
+          await commandLogger?.warn('This is not a claude code diff');
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Error accepting hunk: ${message}`);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeRejectHunk
+  plugin.registerCommand(
+    'ClaudeRejectHunk',
+    async () => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await commandLogger?.warn('Claude MCP Server is not running');
+          return;
+        }
+
+        const buffer = await plugin.nvim.buffer;
+        const bufnr = buffer.id;
+        const pid = await plugin.nvim.call('getpid') as number;
+        const changeId = `${pid}/${bufnr}`;
+        const line = await plugin.nvim.call('line', ['.']) as number;
+
+        const handled = await serverManager.rejectHunk(changeId, line);
+        if (!handled) {
+          await commandLogger?.warn('This is not a claude code diff');
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Error rejecting hunk: ${message}`);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeAcceptRemaining
+  plugin.registerCommand(
+    'ClaudeAcceptRemaining',
+    async () => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await commandLogger?.warn('Claude MCP Server is not running');
+          return;
+        }
+
+        const buffer = await plugin.nvim.buffer;
+        const bufnr = buffer.id;
+        const pid = await plugin.nvim.call('getpid') as number;
+        const changeId = `${pid}/${bufnr}`;
+
+        const handled = await serverManager.acceptRemaining(changeId);
+        if (!handled) {
+          await commandLogger?.warn('This is not a claude code diff');
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Error accepting remaining hunks: ${message}`);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeFormatProposal
+  plugin.registerCommand(
+    'ClaudeFormatProposal',
+    async () => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await commandLogger?.warn('Claude MCP Server is not running');
+          return;
+        }
+
+        const buffer = await plugin.nvim.buffer;
+        const bufnr = buffer.id;
+        const pid = await plugin.nvim.call('getpid') as number;
+        const changeId = `${pid}/${bufnr}`;
+
+        const handled = await serverManager.formatChanges(changeId);
+        if (!handled) {
+          await commandLogger?.warn('This is not a claude code diff');
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Error formatting proposal: ${message}`);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeDiffs - list pending diffs of all clients in the quickfix window
+  plugin.registerCommand(
+    'ClaudeDiffs',
+    async () => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await commandLogger?.warn('Claude MCP Server is not running');
+          return;
+        }
+
+        const diffs = await serverManager.listPendingDiffs();
+        if (diffs.length === 0) {
+          await commandLogger?.info('No pending Claude diffs');
+          return;
+        }
+
+        const items = diffs.map(diff => ({
+          bufnr: diff.bufnr,
+          lnum: diff.firstChangedLine,
+          text: `${diff.filePath} [${diff.tabName}] client ${diff.clientId}, ${formatAge(diff.createdAt)} ago, +${diff.added} -${diff.removed}`
+        }));
+
+        await plugin.nvim.call('setqflist', [[], ' ', { title: 'Claude pending diffs', items }]);
+        await plugin.nvim.command('copen');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Error listing diffs: ${message}`);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Switch to the next (step 1) or previous (step -1) pending diff
+  const switchDiff = async (step: number): Promise<void> => {
+    try {
+      if (!serverManager || !serverManager.isRunning()) {
+        await commandLogger?.warn('Claude MCP Server is not running');
+        return;
+      }
+
+      const diffs = await serverManager.listPendingDiffs();
+      if (diffs.length === 0) {
+        await commandLogger?.info('No pending Claude diffs');
+        return;
+      }
+
+      const current = (await plugin.nvim.buffer).id;
+      const index = diffs.findIndex(diff => diff.bufnr === current);
+      const nextIndex = index === -1
+        ? (step > 0 ? 0 : diffs.length - 1)
+        : (index + step + diffs.length) % diffs.length;
+
+      const target = diffs[nextIndex];
+      await showDiffBuffer(plugin, target.bufnr, target.firstChangedLine);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await commandLogger?.error(`Error switching diff: ${message}`);
+    }
+  };
+
+  // Command: ClaudeDiffNext
+  plugin.registerCommand(
+    'ClaudeDiffNext',
+    async () => {
+      await switchDiff(1);
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeDiffPrev
+  plugin.registerCommand(
+    'ClaudeDiffPrev',
+    async () => {
+      await switchDiff(-1);
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeAcceptAll
+  plugin.registerCommand(
+    'ClaudeAcceptAll',
+    async () => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await commandLogger?.warn('Claude MCP Server is not running');
+          return;
+        }
+
+        const { accepted, blocked } = await serverManager.acceptAll();
+        await commandLogger?.info(`Accepted ${accepted} Claude diff(s)`);
+        if (blocked.length > 0) {
+          await commandLogger?.warn(`Not accepted, review and accept again: ${blocked.join(', ')}`);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Error accepting all changes: ${message}`);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeDropAll
+  plugin.registerCommand(
+    'ClaudeDropAll',
+    async (args: string[]) => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await commandLogger?.warn('Claude MCP Server is not running');
+          return;
+        }
+
+        const reason = args.join(' ').trim();
+        const count = await serverManager.dropAll(reason || undefined);
+        await commandLogger?.info(`Dropped ${count} Claude diff(s)`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Error dropping all changes: ${message}`);
+      }
+    },
+    {
+      nargs: '*',
+      sync: false
+    }
+  );
+
+  // Command: ClaudeSaveOrphan - write a proposal whose client disconnected to its target file
+  plugin.registerCommand(
+    'ClaudeSaveOrphan',
+    async () => {
+      try {
+        const nvim = plugin.nvim;
+        const buffer = await nvim.buffer;
+        const filePath = await nvim.call('getbufvar', [buffer.id, 'claude_orphan_path', '']) as string;
+
+        if (!filePath) {
+          await commandLogger?.warn('This is not an orphaned claude code diff');
+          return;
+        }
+
+        const lines = await buffer.lines;
+        const fileformat = await buffer.getOption('fileformat') as string;
+        const content = lines.join(fileformat === 'dos' ? '\r\n' : '\n');
+        const previousContent = existsSync(filePath) ? readFileSync(filePath, 'utf-8') : '';
+
+        mkdirSync(dirname(filePath), { recursive: true });
+        writeFileSync(filePath, content, 'utf-8');
+        await nvim.command(`bwipeout! ${buffer.id}`);
+
+        await syncBufferWithFile(nvim, { filePath, content, previousContent });
+        await commandLogger?.info(`Saved orphaned proposal to ${filePath}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Error saving orphaned proposal: ${message}`);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeHistory - browse the journal of accepted and rejected proposals
+  plugin.registerCommand(
+    'ClaudeHistory',
+    async () => {
+      try {
+        const nvim = plugin.nvim;
+        const journal = await Journal.forWorkspace(nvim);
+        const entries = journal.entries().reverse();
+
+        if (entries.length === 0) {
+          await commandLogger?.info('Claude history is empty');
+          return;
+        }
+
+        const cwd = await nvim.call('getcwd') as string;
+        const lines = entries.map(entry => {
+          const time = entry.timestamp.replace('T', ' ').slice(0, 19);
+          const reason = entry.reason ? `  (${entry.reason.replace(/\s+/g, ' ')})` : '';
+          const rule = entry.rule ? `  [rule: ${entry.rule}]` : '';
+          return `${entry.id}  ${time}  ${entry.outcome.padEnd(8)}  client ${entry.client}  ${displayPath(entry.filePath, cwd)}${rule}${reason}`;
+        });
+
+        const existing = await nvim.call('bufnr', ['^claude://history$']) as number;
+        if (existing !== -1) {
+          await nvim.command(`bwipeout! ${existing}`);
+        }
+
+        await nvim.command('botright 12new');
+        const bufnr = await fillScratchBuffer(plugin, 'claude://history', lines, '');
+        await nvim.call('setbufvar', [bufnr, 'claude_history_ids', entries.map(entry => entry.id)]);
+
+        const keymapOptions = { noremap: true, silent: true };
+        await nvim.call('nvim_buf_set_keymap', [bufnr, 'n', '<CR>', "<Cmd>execute 'ClaudeHistoryShow' b:claude_history_ids[line('.') - 1]<CR>", keymapOptions]);
+        await nvim.call('nvim_buf_set_keymap', [bufnr, 'n', 'r', "<Cmd>execute 'ClaudeHistoryRevert' b:claude_history_ids[line('.') - 1]<CR>", keymapOptions]);
+        await nvim.call('nvim_buf_set_keymap', [bufnr, 'n', 'q', '<Cmd>close<CR>', keymapOptions]);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Error opening history: ${message}`);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeHistoryShow - show a journal entry as a diff in a new tab
+  plugin.registerCommand(
+    'ClaudeHistoryShow',
+    async (args: string[]) => {
+      try {
+        const nvim = plugin.nvim;
+        const journal = await Journal.forWorkspace(nvim);
+        const entry = journal.get(args[0]);
+
+        if (!entry) {
+          await commandLogger?.warn(`No history entry ${args[0]}`);
+          return;
+        }
+
+        await nvim.command('tabnew');
+        await fillScratchBuffer(plugin, `claude://history/${entry.id}/${entry.outcome}`, toBufferLines(entry.content), entry.filePath);
+        await nvim.command('leftabove vnew');
+        await fillScratchBuffer(plugin, `claude://history/${entry.id}/base`, toBufferLines(entry.base), entry.filePath);
+        await nvim.command('windo diffthis');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Error showing history entry: ${message}`);
+      }
+    },
+    {
+      nargs: '1',
+      sync: false
+    }
+  );
+
+  // Command: ClaudeHistoryRevert - propose undoing an accepted change; writing the proposal applies it
+  plugin.registerCommand(
+    'ClaudeHistoryRevert',
+    async (args: string[]) => {
+      try {
+        const nvim = plugin.nvim;
+        const journal = await Journal.forWorkspace(nvim);
+        const buffer = await nvim.buffer;
+        const pendingRevert = await nvim.call('getbufvar', [buffer.id, 'claude_revert_path', '']) as string;
+
+        if (args.length === 0 && pendingRevert) {
+          // Called from a revert proposal: write it to the file
+          const lines = await buffer.lines;
+          if (lines.includes(CONFLICT_MARKERS.ours)) {
+            await commandLogger?.warn('Resolve the conflict markers before applying the revert');
+            return;
+          }
+
+          const fileformat = await buffer.getOption('fileformat') as string;
+          const content = lines.join(fileformat === 'dos' ? '\r\n' : '\n');
+
+          // A file the change created is removed: moved back for renames, deleted when left empty
+          const createdPath = await nvim.call('getbufvar', [buffer.id, 'claude_revert_remove', '']) as string;
+          const removePath = createdPath && (createdPath !== pendingRevert || content === '') ? createdPath : '';
+          const existed = existsSync(pendingRevert);
+          const previousContent = existed ? readFileSync(pendingRevert, 'utf-8') : '';
+          const base = removePath && existsSync(removePath) ? readFileSync(removePath, 'utf-8') : previousContent;
+
+          if (removePath !== pendingRevert) {
+            mkdirSync(dirname(pendingRevert), { recursive: true });
+            writeFileSync(pendingRevert, content, 'utf-8');
+          }
+          if (removePath) {
+            rmSync(removePath, { force: true });
+            const removedBufnr = await nvim.call('bufnr', [removePath]) as number;
+            if (removedBufnr !== -1 && !await nvim.call('getbufvar', [removedBufnr, '&modified'])) {
+              await nvim.command(`bwipeout ${removedBufnr}`);
+            }
+          }
+
+          await buffer.setOption('modified', false);
+          const view = revertViews.get(buffer.id);
+          revertViews.delete(buffer.id);
+          if (view) {
+            await closeDiffView(nvim, view);
+          }
+          await nvim.command(`bwipeout! ${buffer.id}`);
+
+          if (removePath === pendingRevert) {
+            journal.append({ client: 'user', filePath: pendingRevert, outcome: 'reverted', base, content: '' });
+            await commandLogger?.info(`Reverted changes by removing ${pendingRevert}`);
+            return;
+          }
+
+          journal.append({
+            client: 'user',
+            filePath: pendingRevert,
+            oldFilePath: removePath || undefined,
+            created: !existed,
+            outcome: 'reverted',
+            base,
+            content
+          });
+          await syncBufferWithFile(nvim, { filePath: pendingRevert, content, previousContent });
+          await commandLogger?.info(`Reverted changes to ${pendingRevert}`);
+          return;
+        }
+
+        const entry = journal.get(args[0]);
+        if (!entry) {
+          await commandLogger?.warn(args[0] ? `No history entry ${args[0]}` : 'Usage: ClaudeHistoryRevert {id}');
+          return;
+        }
+        if (entry.outcome !== 'accepted') {
+          await commandLogger?.warn('Only accepted changes can be reverted');
+          return;
+        }
+
+        // Renames are reverted by moving the content back to the old path
+        const revertPath = entry.oldFilePath ?? entry.filePath;
+        const current = existsSync(entry.filePath) ? readFileSync(entry.filePath, 'utf-8') : '';
+        let proposal = toBufferLines(entry.base);
+        let conflicts = 0;
+
+        if (current !== entry.content) {
+          // The file moved on since: apply the change in reverse on top of the current content
+          const merge = mergeLines(toBufferLines(entry.content), toBufferLines(current), toBufferLines(entry.base));
+          proposal = merge.lines;
+          conflicts = merge.conflicts;
+        }
+
+        const cwd = await nvim.call('getcwd') as string;
+        const bufnr = await nvim.call('nvim_create_buf', [true, false]) as number;
+
+        await nvim.call('nvim_buf_set_lines', [bufnr, 0, -1, false, proposal]);
+        await nvim.call('nvim_buf_set_name', [bufnr, `claude://revert/${entry.id}/${displayPath(revertPath, cwd)}`]);
+        await nvim.call('setbufvar', [bufnr, '&buftype', 'acwrite']);
+        await nvim.call('setbufvar', [bufnr, '&swapfile', 0]);
+        await nvim.call('setbufvar', [bufnr, '&fileformat', entry.content.includes('\r\n') ? 'dos' : 'unix']);
+        await nvim.call('setbufvar', [bufnr, 'claude_revert_path', revertPath]);
+        await nvim.call('setbufvar', [bufnr, 'claude_revert_remove', entry.created ? entry.filePath : '']);
+        await nvim.lua('local buf, path = ...; local ft = vim.filetype.match({ filename = path }); if ft then vim.bo[buf].filetype = ft end', [bufnr, revertPath]);
+        await nvim.command(`autocmd BufWriteCmd <buffer=${bufnr}> ClaudeHistoryRevert`);
+
+        const view = await presentDiff(nvim, {
+          bufnr,
+          baseLines: toBufferLines(current),
+          title: `Revert ${entry.id}`,
+          activate: true,
+          nativeDiff: true
+        });
+        revertViews.set(bufnr, view);
+
+        if (conflicts > 0) {
+          await commandLogger?.warn(`Revert conflicts with later edits in ${conflicts} place(s), resolve them and :w to apply`);
+        } else {
+          await commandLogger?.info('Review the revert and :w to apply it');
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Error reverting change: ${message}`);
+      }
+    },
+    {
+      nargs: '?',
+      sync: false
+    }
+  );
+
+  // Autocmd: BufWipeout - automatically drop changes when diff buffer is wiped out
+  plugin.registerAutocmd(
+    'BufWipeout',
+    async (bufnrStr: string) => {
+      const bufnr = parseInt(bufnrStr);
+
+      const revertView = revertViews.get(bufnr);
+      if (revertView) {
+        revertViews.delete(bufnr);
+        await closeDiffView(plugin.nvim, revertView);
+      }
+
+      if (!serverManager || !serverManager.isRunning()) {
+        return;
+      }
+
+      const pid = await plugin.nvim.call('getpid') as number;
+      const changeId = `${pid}/${bufnr}`;
+
+      await serverManager.dropChanges(changeId);
+      await serverManager.stopSelectionTracking(bufnr);
+    },
+    {
+      pattern: '*',
+      eval: 'expand("<abuf>")',
+      sync: false
+    }
+  );
+
+  // Command: ClaudeStartSelectionTracking
+  plugin.registerCommand(
+    'ClaudeStartSelectionTracking',
+    async (args: string[]) => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await commandLogger?.warn('Claude MCP Server is not running');
+          return;
+        }
+
+        const bufnr = args[0] ? parseInt(args[0], 10) : (await plugin.nvim.buffer).id;
+        await serverManager.startSelectionTracking(bufnr);
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Failed to start selection tracking: ${message}`);
+      }
+    },
+    {
+      nargs: '?',
+      sync: false
+    }
+  );
+
+  // Command: ClaudeStopSelectionTracking
+  plugin.registerCommand(
+    'ClaudeStopSelectionTracking',
+    async (args: string[]) => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await commandLogger?.warn('Claude MCP Server is not running');
+          return;
+        }
+
+        const bufnr = args[0] ? parseInt(args[0], 10) : (await plugin.nvim.buffer).id;
+        await serverManager.stopSelectionTracking(bufnr);
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Failed to stop selection tracking: ${message}`);
+      }
+    },
+    {
+      nargs: '?',
+      sync: false
+    }
+  );
+
+  // Command: ClaudeStartFollowFocus
+  plugin.registerCommand(
+    'ClaudeStartFollowFocus',
+    async () => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await commandLogger?.warn('Claude MCP Server is not running');
+          return;
+        }
+
+        await serverManager.startFollowFocus();
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Failed to start follow-focus tracking: ${message}`);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeStopFollowFocus
+  plugin.registerCommand(
+    'ClaudeStopFollowFocus',
+    async () => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await commandLogger?.warn('Claude MCP Server is not running');
+          return;
+        }
+
+        await serverManager.stopFollowFocus();
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Failed to stop follow-focus tracking: ${message}`);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeMention
+  plugin.registerCommand(
+    'ClaudeMention',
+    async () => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await plugin.nvim.call('nvim_echo', [[['Claude MCP Server is not running', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        const buffer = await plugin.nvim.buffer;
+        const { filePath, stale } = await serverManager.mentionPath(buffer.id);
+
+        if (!filePath) {
+          await plugin.nvim.call('nvim_echo', [[['Buffer has no file path', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        // Snapshots are disabled: Claude reads the file as saved
+        if (stale) {
+          await plugin.nvim.call('nvim_echo', [[['Buffer has unsaved changes', 'WarningMsg']], true, {}]);
+        }
+
+        // Get the last visual selection, in the mode it was made in
+        const marked = await getMarkedSelection(plugin.nvim);
+
+        if (!marked) {
+          await plugin.nvim.call('nvim_echo', [[['No visual selection', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        const { lineStart, lineEnd } = selectionLines(marked);
+
+        await serverManager.sendAtMention({ filePath, lineStart, lineEnd });
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await plugin.nvim.call('nvim_echo', [[['Failed to send at-mention: ' + message, 'ErrorMsg']], true, {}]);
+      }
+    },
+    {
+      range: '',
+      sync: false
+    }
+  );
+
+  // Command: ClaudeMentionFile
+  plugin.registerCommand(
+    'ClaudeMentionFile',
+    async () => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await plugin.nvim.call('nvim_echo', [[['Claude MCP Server is not running', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        const buffer = await plugin.nvim.buffer;
+        const { filePath } = await serverManager.mentionPath(buffer.id);
+
+        if (!filePath) {
+          await plugin.nvim.call('nvim_echo', [[['Buffer has no file path', 'WarningMsg']], true, {}]);
+          return;
         }
 
         await serverManager.sendAtMention({ filePath });
@@ -869,16 +2296,15 @@ export function registerClaudeMcpCommands(plugin: NvimPlugin): void {
         }
 
         const buffer = await plugin.nvim.buffer;
-        const filePath = await buffer.name;
+        const { filePath, stale } = await serverManager.mentionPath(buffer.id);
 
         if (!filePath) {
           await plugin.nvim.call('nvim_echo', [[['Buffer has no file path', 'WarningMsg']], true, {}]);
           return;
         }
 
-        // Check if buffer is modified
-        const isModified = await plugin.nvim.call('getbufvar', [buffer.id, '&modified']) as number;
-        if (isModified) {
+        // Snapshots are disabled: Claude reads the file as saved
+        if (stale) {
           await plugin.nvim.call('nvim_echo', [[['Buffer has unsaved changes', 'WarningMsg']], true, {}]);
         }
 
@@ -900,4 +2326,385 @@ export function registerClaudeMcpCommands(plugin: NvimPlugin): void {
       sync: false
     }
   );
+
+  // Command: ClaudeMentionDiagnostic - mention the diagnostics under the cursor, with their messages
+  plugin.registerCommand(
+    'ClaudeMentionDiagnostic',
+    async () => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await plugin.nvim.call('nvim_echo', [[['Claude MCP Server is not running', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        const buffer = await plugin.nvim.buffer;
+        const { filePath, stale } = await serverManager.mentionPath(buffer.id);
+
+        if (!filePath) {
+          await plugin.nvim.call('nvim_echo', [[['Buffer has no file path', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        if (stale) {
+          await plugin.nvim.call('nvim_echo', [[['Buffer has unsaved changes', 'WarningMsg']], true, {}]);
+        }
+
+        const batch = await diagnosticsAtCursor(plugin.nvim, filePath);
+        if (batch.mentions.length === 0) {
+          await plugin.nvim.call('nvim_echo', [[['No diagnostic under the cursor', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        await serverManager.sendMentionBatch('diagnostics', batch);
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await plugin.nvim.call('nvim_echo', [[['Failed to send diagnostic at-mention: ' + message, 'ErrorMsg']], true, {}]);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeMentionQuickfix / ClaudeMentionLoclist - mention every entry of the quickfix or location list
+  for (const [name, loclist] of [['ClaudeMentionQuickfix', false], ['ClaudeMentionLoclist', true]] as const) {
+    plugin.registerCommand(
+      name,
+      async () => {
+        try {
+          if (!serverManager || !serverManager.isRunning()) {
+            await plugin.nvim.call('nvim_echo', [[['Claude MCP Server is not running', 'WarningMsg']], true, {}]);
+            return;
+          }
+
+          const batch = await listEntries(plugin.nvim, loclist);
+          if (batch.mentions.length === 0) {
+            await plugin.nvim.call('nvim_echo', [[[`${loclist ? 'Location' : 'Quickfix'} list has no valid entries`, 'WarningMsg']], true, {}]);
+            return;
+          }
+
+          await serverManager.sendMentionBatch(loclist ? 'loclist' : 'quickfix', batch);
+
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          await plugin.nvim.call('nvim_echo', [[['Failed to send list at-mentions: ' + message, 'ErrorMsg']], true, {}]);
+        }
+      },
+      {
+        sync: false
+      }
+    );
+  }
+
+  // Command: ClaudeMentionDirectory [path] - mention a directory, by default the one shown by netrw or oil.nvim
+  plugin.registerCommand(
+    'ClaudeMentionDirectory',
+    async (args: string[]) => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await plugin.nvim.call('nvim_echo', [[['Claude MCP Server is not running', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        const directory = await directoryToMention(plugin.nvim, args[0]);
+        if (!directory) {
+          await plugin.nvim.call('nvim_echo', [[[args[0] ? `Not a directory: ${args[0]}` : 'No directory to mention', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        await serverManager.sendAtMention({ filePath: directory });
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await plugin.nvim.call('nvim_echo', [[['Failed to send directory at-mention: ' + message, 'ErrorMsg']], true, {}]);
+      }
+    },
+    {
+      nargs: '?',
+      complete: 'dir',
+      sync: false
+    }
+  );
+
+  // Command: ClaudeMentionHunk - mention the git hunk under the cursor
+  plugin.registerCommand(
+    'ClaudeMentionHunk',
+    async () => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await plugin.nvim.call('nvim_echo', [[['Claude MCP Server is not running', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        const buffer = await plugin.nvim.buffer;
+        const bufferPath = await buffer.name;
+
+        if (!bufferPath) {
+          await plugin.nvim.call('nvim_echo', [[['Buffer has no file path', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        const hunk = await hunkAtCursor(plugin.nvim, bufferPath);
+        if (!hunk) {
+          await plugin.nvim.call('nvim_echo', [[['No git hunk under the cursor', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        // gitsigns hunks follow the buffer, git diff hunks the saved file
+        let filePath = bufferPath;
+        if (hunk.fromBuffer) {
+          filePath = (await serverManager.mentionPath(buffer.id)).filePath;
+        } else if (await plugin.nvim.call('getbufvar', [buffer.id, '&modified'])) {
+          await plugin.nvim.call('nvim_echo', [[['Buffer has unsaved changes', 'WarningMsg']], true, {}]);
+        }
+
+        await serverManager.sendAtMention({ filePath, lineStart: hunk.lineStart, lineEnd: hunk.lineEnd });
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await plugin.nvim.call('nvim_echo', [[['Failed to send hunk at-mention: ' + message, 'ErrorMsg']], true, {}]);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeBasketAdd - add the last visual selection to the context basket
+  plugin.registerCommand(
+    'ClaudeBasketAdd',
+    async () => {
+      try {
+        const target = await currentBasketTarget(plugin);
+        if (!target) {
+          return;
+        }
+
+        const marked = await getMarkedSelection(plugin.nvim);
+        if (!marked) {
+          await plugin.nvim.call('nvim_echo', [[['No visual selection', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        await getContextBasket(plugin).add({ kind: 'selection', ...target, ...selectionLines(marked) });
+        await refreshBasketView(plugin);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await plugin.nvim.call('nvim_echo', [[['Failed to add selection to basket: ' + message, 'ErrorMsg']], true, {}]);
+      }
+    },
+    {
+      range: '',
+      sync: false
+    }
+  );
+
+  // Command: ClaudeBasketAddLine - add the cursor line to the context basket
+  plugin.registerCommand(
+    'ClaudeBasketAddLine',
+    async () => {
+      try {
+        const target = await currentBasketTarget(plugin);
+        if (!target) {
+          return;
+        }
+
+        const line = (await plugin.nvim.call('line', ['.']) as number) - 1;
+        await getContextBasket(plugin).add({ kind: 'line', ...target, lineStart: line, lineEnd: line });
+        await refreshBasketView(plugin);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await plugin.nvim.call('nvim_echo', [[['Failed to add line to basket: ' + message, 'ErrorMsg']], true, {}]);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeBasketAddFile - add the current file to the context basket
+  plugin.registerCommand(
+    'ClaudeBasketAddFile',
+    async () => {
+      try {
+        const target = await currentBasketTarget(plugin);
+        if (!target) {
+          return;
+        }
+
+        await getContextBasket(plugin).add({ kind: 'file', ...target });
+        await refreshBasketView(plugin);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await plugin.nvim.call('nvim_echo', [[['Failed to add file to basket: ' + message, 'ErrorMsg']], true, {}]);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeBasketAddDiagnostic - add the most severe diagnostic under the cursor to the context basket
+  plugin.registerCommand(
+    'ClaudeBasketAddDiagnostic',
+    async () => {
+      try {
+        const target = await currentBasketTarget(plugin);
+        if (!target) {
+          return;
+        }
+
+        const diagnostic = await plugin.nvim.lua(`
+          local lnum = vim.fn.line('.') - 1
+          local found
+          for _, d in ipairs(vim.diagnostic.get(0, { lnum = lnum })) do
+            if not found or d.severity < found.severity then
+              found = d
+            end
+          end
+          if not found then
+            return vim.NIL
+          end
+          return {
+            lnum = found.lnum,
+            end_lnum = math.max(found.end_lnum or found.lnum, found.lnum),
+            message = vim.diagnostic.severity[found.severity] .. ': ' .. found.message,
+          }
+        `, []) as { lnum: number; end_lnum: number; message: string } | null;
+
+        if (!diagnostic) {
+          await plugin.nvim.call('nvim_echo', [[['No diagnostic under the cursor', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        await getContextBasket(plugin).add({
+          kind: 'diagnostic',
+          ...target,
+          lineStart: diagnostic.lnum,
+          lineEnd: diagnostic.end_lnum,
+          note: diagnostic.message
+        });
+        await refreshBasketView(plugin);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await plugin.nvim.call('nvim_echo', [[['Failed to add diagnostic to basket: ' + message, 'ErrorMsg']], true, {}]);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeBasket - show the context basket; deleting or reordering lines and writing edits it
+  plugin.registerCommand(
+    'ClaudeBasket',
+    async () => {
+      try {
+        const nvim = plugin.nvim;
+        const basket = getContextBasket(plugin);
+        const buffer = await nvim.buffer;
+        const isView = await nvim.call('getbufvar', [buffer.id, 'claude_basket_view', 0]) as number;
+
+        if (isView) {
+          // Called from the basket view: keep the listed entries, in their new order
+          const ids = (await buffer.lines)
+            .map(parseBasketEntryId)
+            .filter((id): id is number => id !== null);
+          await basket.setOrder(ids);
+          await buffer.setOption('modified', false);
+          await refreshBasketView(plugin);
+          return;
+        }
+
+        const existing = await nvim.call('bufnr', ['^claude://basket$']) as number;
+        if (existing !== -1) {
+          await nvim.command(`bwipeout! ${existing}`);
+        }
+
+        await nvim.command('botright 10new');
+        const view = await nvim.buffer;
+        await view.setOption('buftype', 'acwrite');
+        await view.setOption('bufhidden', 'wipe');
+        await view.setOption('swapfile', false);
+        view.name = 'claude://basket';
+        await nvim.call('setbufvar', [view.id, 'claude_basket_view', 1]);
+        await refreshBasketView(plugin);
+
+        await nvim.command(`autocmd BufWriteCmd <buffer=${view.id}> ClaudeBasket`);
+        await nvim.call('nvim_buf_set_keymap', [view.id, 'n', 'q', '<Cmd>close<CR>', { noremap: true, silent: true }]);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Error opening context basket: ${message}`);
+      }
+    },
+    {
+      sync: false
+    }
+  );
+
+  // Command: ClaudeBasketSend [keep] - mention every basket entry in order, then empty the basket
+  plugin.registerCommand(
+    'ClaudeBasketSend',
+    async (args: string[]) => {
+      try {
+        if (!serverManager || !serverManager.isRunning()) {
+          await plugin.nvim.call('nvim_echo', [[['Claude MCP Server is not running', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        const basket = getContextBasket(plugin);
+        const entries = await basket.list();
+        if (entries.length === 0) {
+          await plugin.nvim.call('nvim_echo', [[['Context basket is empty', 'WarningMsg']], true, {}]);
+          return;
+        }
+
+        let stale = false;
+        for (const { bufnr, lineStart, lineEnd, ...entry } of entries) {
+          let filePath = entry.filePath;
+          if (bufnr !== null && await plugin.nvim.call('bufloaded', [bufnr])) {
+            const target = await serverManager.mentionPath(bufnr);
+            filePath = target.filePath || filePath;
+            stale = stale || target.stale;
+          }
+          await serverManager.sendAtMention(lineStart === undefined ? { filePath } : { filePath, lineStart, lineEnd });
+        }
+
+        if (stale) {
+          await plugin.nvim.call('nvim_echo', [[['Some basket buffers have unsaved changes', 'WarningMsg']], true, {}]);
+        }
+
+        if (args[0] !== 'keep') {
+          await basket.clear();
+          await refreshBasketView(plugin);
+        }
+        await commandLogger?.info(`Sent ${entries.length} basket ${entries.length === 1 ? 'entry' : 'entries'} to Claude`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await plugin.nvim.call('nvim_echo', [[['Failed to send basket: ' + message, 'ErrorMsg']], true, {}]);
+      }
+    },
+    {
+      nargs: '?',
+      sync: false
+    }
+  );
+
+  // Command: ClaudeBasketClear
+  plugin.registerCommand(
+    'ClaudeBasketClear',
+    async () => {
+      try {
+        await getContextBasket(plugin).clear();
+        await refreshBasketView(plugin);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await commandLogger?.error(`Error clearing context basket: ${message}`);
+      }
+    },
+    {
+      sync: false
+    }
+  );
 }
@@ -0,0 +1,126 @@
+import { Neovim } from 'neovim';
+
+/**
+ * What a basket entry points Claude at
+ */
+export type BasketEntryKind = 'selection' | 'line' | 'file' | 'diagnostic';
+
+/**
+ * One item of the context basket
+ */
+export interface BasketEntry {
+  id: number;
+  kind: BasketEntryKind;
+  filePath: string;
+  bufnr: number | null;
+  markId: number | null; // Extmark following the range while the buffer is edited
+  lineStart?: number; // 0-based, absent for whole files
+  lineEnd?: number;
+  note?: string; // Diagnostic message or other description
+}
+
+/**
+ * Collects mentions to send to Claude together, in order.
+ * Line ranges are marked in their buffers with signs that follow edits.
+ */
+export class ContextBasket {
+  private nvim: Neovim;
+  private entries: BasketEntry[] = [];
+  private nextId = 1;
+
+  constructor(nvim: Neovim) {
+    this.nvim = nvim;
+  }
+
+  /**
+   * Add an entry, marking its lines in the buffer
+   */
+  async add(entry: Omit<BasketEntry, 'id' | 'markId'>): Promise<BasketEntry> {
+    const record: BasketEntry = { ...entry, id: this.nextId++, markId: null };
+
+    if (entry.bufnr !== null && entry.lineStart !== undefined && entry.lineEnd !== undefined) {
+      const ns = await this.nvim.call('nvim_create_namespace', ['claude_basket']) as number;
+      record.markId = await this.nvim.call('nvim_buf_set_extmark', [entry.bufnr, ns, entry.lineStart, 0, {
+        end_row: entry.lineEnd,
+        sign_text: '»',
+        sign_hl_group: 'DiagnosticHint',
+        right_gravity: false,
+        end_right_gravity: true
+      }]) as number;
+    }
+
+    this.entries.push(record);
+    return record;
+  }
+
+  /**
+   * Current entries in order, with line ranges updated from their marks
+   */
+  async list(): Promise<BasketEntry[]> {
+    const ns = await this.nvim.call('nvim_create_namespace', ['claude_basket']) as number;
+
+    for (const entry of this.entries) {
+      if (entry.bufnr === null || entry.markId === null || !await this.nvim.call('nvim_buf_is_valid', [entry.bufnr])) {
+        continue;
+      }
+
+      // Empty when the mark is gone, e.g. after the buffer was unloaded
+      const [row, , details] = await this.nvim.call('nvim_buf_get_extmark_by_id', [entry.bufnr, ns, entry.markId, { details: true }]) as
+        [number?, number?, { end_row?: number }?];
+      if (row !== undefined) {
+        entry.lineStart = row;
+        entry.lineEnd = details?.end_row ?? row;
+      }
+    }
+
+    return [...this.entries];
+  }
+
+  /**
+   * Keep only the given entries, in the given order
+   */
+  async setOrder(ids: number[]): Promise<void> {
+    const byId = new Map(this.entries.map(entry => [entry.id, entry]));
+    const kept = ids.map(id => byId.get(id)).filter((entry): entry is BasketEntry => entry !== undefined);
+    const removed = this.entries.filter(entry => !kept.includes(entry));
+
+    await this.unmark(removed);
+    this.entries = [...new Set(kept)];
+  }
+
+  /**
+   * Remove all entries
+   */
+  async clear(): Promise<void> {
+    await this.unmark(this.entries);
+    this.entries = [];
+  }
+
+  /**
+   * Number of entries
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Delete the signs of entries leaving the basket
+   */
+  private async unmark(entries: BasketEntry[]): Promise<void> {
+    const ns = await this.nvim.call('nvim_create_namespace', ['claude_basket']) as number;
+
+    for (const entry of entries) {
+      if (entry.bufnr !== null && entry.markId !== null && await this.nvim.call('nvim_buf_is_valid', [entry.bufnr])) {
+        await this.nvim.call('nvim_buf_del_extmark', [entry.bufnr, ns, entry.markId]);
+      }
+    }
+  }
+}
+
+/**
+ * Entry id of a basket view line ("[id] path:lines  kind"), null for lines that aren't entries
+ */
+export function parseBasketEntryId(line: string): number | null {
+  const match = /^\s*\[(\d+)\]/.exec(line);
+  return match ? parseInt(match[1], 10) : null;
+}
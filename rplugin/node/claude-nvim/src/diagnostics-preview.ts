@@ -0,0 +1,250 @@
+import { Neovim } from 'neovim';
+import { createShadowBuffer, wipeShadowBuffers } from './shadow-buffer.js';
+
+/**
+ * Shadow buffers that run LSP diagnostics on a proposal, removed again once it settles
+ */
+export interface DiagnosticsPreview {
+  bufnr: number; // Proposal buffer
+  shadowBufnrs: number[];
+}
+
+/**
+ * Difference in diagnostics between a proposal and the current file
+ */
+export interface DiagnosticsDelta {
+  errors: number;
+  warnings: number;
+}
+
+/**
+ * Options for previewing diagnostics of a proposal buffer
+ */
+interface DiagnosticsPreviewOptions {
+  bufnr: number;
+  filePath: string; // Target file, whose LSP clients check the shadow buffers
+  baseLines: string[];
+}
+
+/**
+ * Check g:claude_diagnostics_preview, enabled unless set to false
+ */
+export async function isDiagnosticsPreviewEnabled(nvim: Neovim): Promise<boolean> {
+  const enabled = await nvim.getVar('claude_diagnostics_preview') as boolean | number | null;
+  return enabled !== false && enabled !== 0;
+}
+
+/**
+ * Run the LSP clients of the target file on a shadow copy of the proposal and show the result.
+ *
+ * The shadow is an unlisted scratch buffer with the target's file name, isolated outside the
+ * project so servers don't mistake it for part of the target's package; it follows every edit
+ * made to the proposal. The current file is checked the same way on a second shadow holding
+ * the base, so both sides are judged under the same conditions. Once both have been reported on
+ * since their last change, the summary ("+3 errors, −1 warning vs current file") is shown above
+ * the first line of the proposal and stored in b:claude_diagnostics_summary, the counts in
+ * b:claude_diagnostics_delta; until then the delta is unset.
+ *
+ * @returns The preview, or null when no LSP client handles the file
+ */
+export async function startDiagnosticsPreview(nvim: Neovim, options: DiagnosticsPreviewOptions): Promise<DiagnosticsPreview | null> {
+  const filetype = await nvim.call('getbufvar', [options.bufnr, '&filetype']) as string;
+  const lines = await nvim.call('nvim_buf_get_lines', [options.bufnr, 0, -1, false]) as string[];
+
+  const shadow = await createShadowBuffer(nvim, {
+    filePath: options.filePath,
+    ownerBufnr: options.bufnr,
+    tag: 'proposal',
+    lines,
+    filetype,
+    isolated: true
+  });
+  if (shadow.clients === 0) {
+    await wipeShadowBuffers(nvim, [shadow.bufnr]);
+    return null;
+  }
+
+  const base = await createShadowBuffer(nvim, {
+    filePath: options.filePath,
+    ownerBufnr: options.bufnr,
+    tag: 'base',
+    lines: options.baseLines,
+    filetype,
+    isolated: true
+  });
+
+  await nvim.lua(`
+    local proposal, proposal_shadow, base = ...
+    vim.b[proposal].claude_diagnostics_base = base
+
+    -- Whether each shadow was reported on since it last changed, the delta is unknown until both were
+    local reported = { [proposal_shadow] = false, [base] = false }
+
+    local ns = vim.api.nvim_create_namespace('claude_diagnostics')
+    local summary_ns = vim.api.nvim_create_namespace('claude_diagnostics_summary')
+    local severity = vim.diagnostic.severity
+
+    local function count(buf)
+      local errors, warnings = 0, 0
+      for _, diagnostic in ipairs(vim.diagnostic.get(buf)) do
+        if diagnostic.severity == severity.ERROR then
+          errors = errors + 1
+        elseif diagnostic.severity == severity.WARN then
+          warnings = warnings + 1
+        end
+      end
+      return errors, warnings
+    end
+
+    local function describe(delta, word)
+      local amount = math.abs(delta)
+      return (delta > 0 and '+' or '−') .. amount .. ' ' .. word .. (amount == 1 and '' or 's')
+    end
+
+    local function render()
+      if not vim.api.nvim_buf_is_valid(proposal) then
+        return
+      end
+
+      -- Show the proposal's own diagnostics in place, its lines match the shadow one to one
+      if reported[proposal_shadow] then
+        vim.diagnostic.set(ns, proposal, vim.diagnostic.get(proposal_shadow))
+      end
+
+      local summary, delta, hl = 'waiting for language servers', nil, 'Comment'
+      if reported[proposal_shadow] and reported[base] then
+        local errors, warnings = count(proposal_shadow)
+        local base_errors, base_warnings = count(base)
+        delta = { errors = errors - base_errors, warnings = warnings - base_warnings }
+
+        local parts = {}
+        if delta.errors ~= 0 then
+          table.insert(parts, describe(delta.errors, 'error'))
+        end
+        if delta.warnings ~= 0 then
+          table.insert(parts, describe(delta.warnings, 'warning'))
+        end
+        summary = (#parts > 0 and table.concat(parts, ', ') or 'no new diagnostics') .. ' vs current file'
+        hl = delta.errors > 0 and 'DiagnosticError' or 'DiagnosticOk'
+      end
+
+      vim.b[proposal].claude_diagnostics_summary = summary
+      vim.b[proposal].claude_diagnostics_delta = delta
+      vim.api.nvim_buf_clear_namespace(proposal, summary_ns, 0, -1)
+      vim.api.nvim_buf_set_extmark(proposal, summary_ns, 0, 0, {
+        virt_lines = { { { 'Diagnostics: ' .. summary, hl } } },
+        virt_lines_above = true,
+      })
+    end
+
+    -- A change makes the last report stale until the servers report on the new content
+    local function invalidate(buf)
+      reported[buf] = false
+      if vim.api.nvim_buf_is_valid(proposal) then
+        vim.b[proposal].claude_diagnostics_delta = nil
+      end
+    end
+
+    -- Mirror edits of the proposal, coalesced into one copy per event loop turn
+    local sync_pending = false
+    vim.api.nvim_buf_attach(proposal, false, {
+      on_lines = function()
+        if not vim.api.nvim_buf_is_valid(proposal_shadow) then
+          return true
+        end
+        invalidate(proposal_shadow)
+        if not sync_pending then
+          sync_pending = true
+          vim.schedule(function()
+            sync_pending = false
+            if vim.api.nvim_buf_is_valid(proposal_shadow) and vim.api.nvim_buf_is_valid(proposal) then
+              vim.api.nvim_buf_set_lines(proposal_shadow, 0, -1, false, vim.api.nvim_buf_get_lines(proposal, 0, -1, false))
+              render()
+            end
+          end)
+        end
+      end,
+    })
+
+    -- The base changes when the file changed on disk and the proposal was merged with it
+    vim.api.nvim_buf_attach(base, false, {
+      on_lines = function()
+        if not vim.api.nvim_buf_is_valid(proposal) then
+          return true
+        end
+        invalidate(base)
+      end,
+    })
+
+    local group = vim.api.nvim_create_augroup('ClaudeDiagnosticsPreview' .. proposal, { clear = true })
+    vim.api.nvim_create_autocmd('DiagnosticChanged', {
+      group = group,
+      callback = function(args)
+        if args.buf == proposal_shadow or args.buf == base then
+          reported[args.buf] = true
+          render()
+        end
+      end,
+    })
+
+    render()
+  `, [options.bufnr, shadow.bufnr, base.bufnr]);
+
+  return { bufnr: options.bufnr, shadowBufnrs: [shadow.bufnr, base.bufnr] };
+}
+
+/**
+ * Replace the content of the base shadow, e.g. after the file changed on disk
+ */
+export async function updateDiagnosticsBase(nvim: Neovim, preview: DiagnosticsPreview, lines: string[]): Promise<void> {
+  await nvim.lua(`
+    local proposal, shadows, lines = ...
+    local base = vim.b[proposal].claude_diagnostics_base
+    if vim.tbl_contains(shadows, base) and vim.api.nvim_buf_is_valid(base) then
+      vim.api.nvim_buf_set_lines(base, 0, -1, false, lines)
+    end
+  `, [preview.bufnr, preview.shadowBufnrs, lines]);
+}
+
+/**
+ * Read how many errors and warnings the proposal adds, null until diagnostics arrived
+ */
+export async function getDiagnosticsDelta(nvim: Neovim, preview: DiagnosticsPreview): Promise<DiagnosticsDelta | null> {
+  const delta = await nvim.call('getbufvar', [preview.bufnr, 'claude_diagnostics_delta', null]) as DiagnosticsDelta | null;
+  return delta || null;
+}
+
+/**
+ * Wait for the language servers to report on the proposal
+ *
+ * @returns The delta, or null when no diagnostics arrived within the timeout
+ */
+export async function waitForDiagnosticsDelta(nvim: Neovim, preview: DiagnosticsPreview, timeoutMs: number): Promise<DiagnosticsDelta | null> {
+  const startedAt = Date.now();
+
+  for (;;) {
+    const delta = await getDiagnosticsDelta(nvim, preview);
+    if (delta || Date.now() - startedAt >= timeoutMs) {
+      return delta;
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+/**
+ * Stop following the proposal, remove its diagnostics and summary, and wipe the shadow buffers,
+ * which detaches their LSP clients
+ */
+export async function stopDiagnosticsPreview(nvim: Neovim, preview: DiagnosticsPreview): Promise<void> {
+  await nvim.lua(`
+    local proposal = ...
+    pcall(vim.api.nvim_del_augroup_by_name, 'ClaudeDiagnosticsPreview' .. proposal)
+    if vim.api.nvim_buf_is_valid(proposal) then
+      vim.diagnostic.reset(vim.api.nvim_create_namespace('claude_diagnostics'), proposal)
+      vim.api.nvim_buf_clear_namespace(proposal, vim.api.nvim_create_namespace('claude_diagnostics_summary'), 0, -1)
+      vim.b[proposal].claude_diagnostics_summary = nil
+      vim.b[proposal].claude_diagnostics_delta = nil
+    end
+  `, [preview.bufnr]);
+  await wipeShadowBuffers(nvim, preview.shadowBufnrs);
+}
@@ -0,0 +1,179 @@
+import { Neovim } from 'neovim';
+import { existsSync } from 'fs';
+import { basename, join, relative } from 'path';
+
+/**
+ * What to do with a proposal matched by a rule
+ * - accept: save it without review
+ * - reject: reject it without review, sending the rule's reason to Claude
+ * - review: open the diff as usual, skipping later rules
+ */
+export type PolicyAction = 'accept' | 'reject' | 'review';
+
+/**
+ * A policy rule, as written in g:claude_diff_rules or the project rules file.
+ * Every condition that is present must match; a rule without conditions matches everything.
+ */
+export interface PolicyRule {
+  name?: string;
+  glob?: string | string[]; // Relative to the working directory; patterns without '/' match the file name
+  exists?: boolean; // Whether the target file already exists
+  min_lines?: number; // Changed lines (added + removed)
+  max_lines?: number;
+  action: PolicyAction;
+  reason?: string;
+}
+
+/**
+ * Facts about a proposal that rules are matched against
+ */
+export interface PolicySubject {
+  filePath: string;
+  oldFilePath?: string; // File the content is moved from, for renames
+  exists: boolean;
+  added: number;
+  removed: number;
+}
+
+/**
+ * The rule that decided a proposal
+ */
+export interface PolicyDecision {
+  action: PolicyAction;
+  rule: string; // Description of the rule, for notifications and the journal
+  reason?: string;
+}
+
+/**
+ * Project-local rules file, relative to the working directory
+ */
+export const PROJECT_RULES_FILE = join('.claude', 'nvim-diff-rules.json');
+
+/**
+ * Load the policy rules: the project rules file first, then g:claude_diff_rules.
+ *
+ * A cloned repository, or Claude itself, can write the project rules file, so it is read through
+ * vim.secure.read and ignored until the user trusts it, and it can only reject or send to review:
+ * accepting without review is left to g:claude_diff_rules.
+ *
+ * @throws Error when the project rules file isn't valid JSON
+ */
+export async function loadPolicyRules(nvim: Neovim): Promise<PolicyRule[]> {
+  const cwd = await nvim.call('getcwd') as string;
+  const rules: PolicyRule[] = [];
+
+  const projectFile = join(cwd, PROJECT_RULES_FILE);
+  if (existsSync(projectFile)) {
+    // Asks the user the first time and after every change, nil unless trusted
+    const { content } = await nvim.lua(`
+      local ok, content = pcall(vim.secure.read, ...)
+      return { content = ok and content or nil }
+    `, [projectFile]) as { content?: string };
+
+    if (content) {
+      const parsed = JSON.parse(content);
+      const projectRules: PolicyRule[] = Array.isArray(parsed) ? parsed : parsed.rules ?? [];
+      rules.push(...projectRules.filter(rule => rule && rule.action !== 'accept'));
+    }
+  }
+
+  const globalRules = await nvim.getVar('claude_diff_rules') as PolicyRule[] | null;
+  if (Array.isArray(globalRules)) {
+    rules.push(...globalRules);
+  }
+
+  return rules.filter(rule => rule && (rule.action === 'accept' || rule.action === 'reject' || rule.action === 'review'));
+}
+
+/**
+ * Find the first rule matching a proposal
+ *
+ * @param rules - Rules in priority order
+ * @param subject - The proposal
+ * @param cwd - Directory globs are relative to
+ * @returns The decision, or null when no rule matches
+ */
+export function evaluatePolicy(rules: PolicyRule[], subject: PolicySubject, cwd: string): PolicyDecision | null {
+  const relativePath = relative(cwd, subject.filePath);
+  const changed = subject.added + subject.removed;
+
+  // Changes to the project rules always need review, whatever the rules say
+  if (relativePath === PROJECT_RULES_FILE || (subject.oldFilePath && relative(cwd, subject.oldFilePath) === PROJECT_RULES_FILE)) {
+    return null;
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    if (rule.glob !== undefined) {
+      const globs = Array.isArray(rule.glob) ? rule.glob : [rule.glob];
+      const matched = globs.some(glob => globToRegExp(glob).test(glob.includes('/') ? relativePath : basename(relativePath)));
+      if (!matched) {
+        continue;
+      }
+    }
+    if (rule.exists !== undefined && rule.exists !== subject.exists) {
+      continue;
+    }
+    if (rule.min_lines !== undefined && changed < rule.min_lines) {
+      continue;
+    }
+    if (rule.max_lines !== undefined && changed > rule.max_lines) {
+      continue;
+    }
+
+    return {
+      action: rule.action,
+      rule: rule.name ?? describeRule(rule, index),
+      reason: rule.reason
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Short description of a rule without a name
+ */
+function describeRule(rule: PolicyRule, index: number): string {
+  if (rule.glob !== undefined) {
+    return Array.isArray(rule.glob) ? rule.glob.join(', ') : rule.glob;
+  }
+  return `rule ${index + 1}`;
+}
+
+/**
+ * Convert a glob to a regular expression: '**' spans directories, '*' and '?' don't, '{a,b}' alternates
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  let braces = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') {
+        pattern += '(?:.*/)?';
+        i += 2;
+      } else {
+        pattern += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      pattern += '(?:';
+      braces++;
+    } else if (char === '}' && braces > 0) {
+      pattern += ')';
+      braces--;
+    } else if (char === ',' && braces > 0) {
+      pattern += '|';
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${pattern.replace(/^\//, '')}$`);
+}
@@ -0,0 +1,194 @@
+import { Neovim } from 'neovim';
+
+/**
+ * Window layouts for the built-in diff presentation
+ */
+export type DiffLayout = 'vsplit' | 'tab' | 'float';
+
+/**
+ * Windows and buffers opened to present a diff, removed again once it settles
+ */
+export interface DiffView {
+  baseBufnr: number | null;
+  windows: number[];
+  tabpage: number | null;
+}
+
+/**
+ * Options for presenting a proposal buffer
+ */
+interface PresentDiffOptions {
+  bufnr: number;
+  baseLines: string[];
+  title: string;
+  activate: boolean; // Open a window for the proposal (false when ClaudeActivateBufferDiff already did)
+  nativeDiff: boolean; // Show the base beside the proposal with :diffthis (false when ClaudeShowFileDiff handles it)
+}
+
+/**
+ * Read the diff layout from g:claude_diff_layout, defaulting to a vertical split
+ */
+export async function getDiffLayout(nvim: Neovim): Promise<DiffLayout> {
+  const layout = await nvim.getVar('claude_diff_layout') as string | null;
+  if (layout === 'tab' || layout === 'float') {
+    return layout;
+  }
+  return 'vsplit';
+}
+
+/**
+ * Present a proposal buffer, optionally next to a read-only copy of its base in diff mode
+ *
+ * @param nvim - Neovim client
+ * @param options - Proposal buffer and what to show
+ * @returns The created view, to be passed to closeDiffView later
+ */
+export async function presentDiff(nvim: Neovim, options: PresentDiffOptions): Promise<DiffView> {
+  const view: DiffView = { baseBufnr: null, windows: [], tabpage: null };
+  const layout = await getDiffLayout(nvim);
+
+  if (options.nativeDiff) {
+    view.baseBufnr = await createBaseBuffer(nvim, options);
+  }
+
+  let proposalWin: number;
+  let baseWin: number | null = null;
+
+  if (!options.activate) {
+    // The proposal is already in the current window, put the base on its left
+    proposalWin = await nvim.call('win_getid') as number;
+    if (view.baseBufnr !== null) {
+      await nvim.command(`leftabove vertical sbuffer ${view.baseBufnr}`);
+      baseWin = await nvim.call('win_getid') as number;
+    }
+  } else if (layout === 'float') {
+    const columns = await nvim.getOption('columns') as number;
+    const lines = await nvim.getOption('lines') as number;
+    const width = Math.floor(columns * 0.9);
+    const height = Math.floor(lines * 0.8);
+    const row = Math.floor((lines - height) / 2);
+    const col = Math.floor((columns - width) / 2);
+
+    if (view.baseBufnr !== null) {
+      const half = Math.floor(width / 2) - 1;
+      baseWin = await openFloat(nvim, view.baseBufnr, { row, col, width: half, height, title: 'Original' });
+      proposalWin = await openFloat(nvim, options.bufnr, { row, col: col + half + 2, width: width - half - 2, height, title: options.title });
+    } else {
+      proposalWin = await openFloat(nvim, options.bufnr, { row, col, width, height, title: options.title });
+    }
+  } else if (layout === 'tab') {
+    await nvim.command(`tab sbuffer ${options.bufnr}`);
+    proposalWin = await nvim.call('win_getid') as number;
+    view.tabpage = await nvim.call('nvim_get_current_tabpage') as number;
+
+    if (view.baseBufnr !== null) {
+      await nvim.command(`leftabove vertical sbuffer ${view.baseBufnr}`);
+      baseWin = await nvim.call('win_getid') as number;
+    }
+  } else {
+    if (view.baseBufnr !== null) {
+      // Base and proposal side by side in the right two thirds of the screen
+      const columns = await nvim.getOption('columns') as number;
+      await nvim.command(`botright vertical sbuffer ${view.baseBufnr}`);
+      baseWin = await nvim.call('win_getid') as number;
+      await nvim.command(`rightbelow vertical sbuffer ${options.bufnr}`);
+      proposalWin = await nvim.call('win_getid') as number;
+      await nvim.call('nvim_win_set_width', [baseWin, Math.floor(columns / 3)]);
+      await nvim.call('nvim_win_set_width', [proposalWin, Math.floor(columns / 3)]);
+    } else {
+      await nvim.command(`rightbelow vertical sbuffer ${options.bufnr}`);
+      proposalWin = await nvim.call('win_getid') as number;
+    }
+  }
+
+  if (options.activate) {
+    view.windows.push(proposalWin);
+  }
+
+  if (baseWin !== null) {
+    view.windows.push(baseWin);
+    await nvim.call('win_execute', [baseWin, 'diffthis']);
+    await nvim.call('win_execute', [proposalWin, 'diffthis']);
+  }
+
+  await nvim.call('nvim_set_current_win', [proposalWin]);
+
+  return view;
+}
+
+/**
+ * Close the windows, tab page and base buffer opened for a diff
+ */
+export async function closeDiffView(nvim: Neovim, view: DiffView): Promise<void> {
+  if (view.tabpage !== null && await nvim.call('nvim_tabpage_is_valid', [view.tabpage])) {
+    const tabpages = await nvim.call('nvim_list_tabpages') as number[];
+    if (tabpages.length > 1) {
+      const tabnr = await nvim.call('nvim_tabpage_get_number', [view.tabpage]) as number;
+      await nvim.command(`tabclose ${tabnr}`);
+    }
+  }
+
+  for (const win of view.windows) {
+    if (await nvim.call('nvim_win_is_valid', [win])) {
+      const windows = await nvim.call('nvim_list_wins') as number[];
+      if (windows.length > 1) {
+        await nvim.call('nvim_win_close', [win, true]);
+      }
+    }
+  }
+
+  if (view.baseBufnr !== null && await nvim.call('nvim_buf_is_valid', [view.baseBufnr])) {
+    await nvim.command(`bwipeout! ${view.baseBufnr}`);
+  }
+}
+
+/**
+ * Replace the content of the read-only base buffer, e.g. after the file changed on disk
+ */
+export async function updateDiffBase(nvim: Neovim, view: DiffView, lines: string[]): Promise<void> {
+  if (view.baseBufnr === null || !await nvim.call('nvim_buf_is_valid', [view.baseBufnr])) {
+    return;
+  }
+
+  await nvim.call('setbufvar', [view.baseBufnr, '&modifiable', 1]);
+  await nvim.call('nvim_buf_set_lines', [view.baseBufnr, 0, -1, false, lines]);
+  await nvim.call('setbufvar', [view.baseBufnr, '&modifiable', 0]);
+}
+
+/**
+ * Create a read-only scratch buffer holding the base content
+ */
+async function createBaseBuffer(nvim: Neovim, options: PresentDiffOptions): Promise<number> {
+  const bufnr = await nvim.call('nvim_create_buf', [false, true]) as number;
+  const filetype = await nvim.call('getbufvar', [options.bufnr, '&filetype']) as string;
+
+  await nvim.call('nvim_buf_set_lines', [bufnr, 0, -1, false, options.baseLines]);
+  await nvim.call('nvim_buf_set_name', [bufnr, `claude://base/${options.bufnr}/${options.title}`]);
+  await nvim.call('setbufvar', [bufnr, '&bufhidden', 'wipe']);
+  await nvim.call('setbufvar', [bufnr, '&modifiable', 0]);
+  if (filetype) {
+    await nvim.call('setbufvar', [bufnr, '&filetype', filetype]);
+  }
+
+  return bufnr;
+}
+
+/**
+ * Open a bordered floating window for a buffer
+ */
+async function openFloat(
+  nvim: Neovim,
+  bufnr: number,
+  geometry: { row: number; col: number; width: number; height: number; title: string }
+): Promise<number> {
+  return await nvim.call('nvim_open_win', [bufnr, true, {
+    relative: 'editor',
+    row: geometry.row,
+    col: geometry.col,
+    width: geometry.width,
+    height: geometry.height,
+    border: 'rounded',
+    title: ` ${geometry.title} `,
+    title_pos: 'center'
+  }]) as number;
+}
@@ -0,0 +1,79 @@
+import { Neovim } from 'neovim';
+import { createHash } from 'crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, dirname, join } from 'path';
+
+/**
+ * Port and auth token a workspace's server used last time
+ */
+export interface StickyEndpoint {
+  port: number;
+  authToken: string;
+}
+
+/**
+ * Endpoint of a workspace's server, kept so a restarted Neovim comes back on the same port
+ * with the same token and a running Claude CLI can reconnect. The file holds the token, so
+ * it is only readable by its owner.
+ */
+export class EndpointState {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Open the endpoint state of Neovim's current working directory
+   * Stored under stdpath('state')/claude-neovim/endpoints/
+   */
+  static async forWorkspace(nvim: Neovim): Promise<EndpointState> {
+    const stateDir = await nvim.call('stdpath', ['state']) as string;
+    const cwd = await nvim.call('getcwd') as string;
+    const hash = createHash('sha256').update(cwd).digest('hex').slice(0, 12);
+
+    return new EndpointState(join(stateDir, 'claude-neovim', 'endpoints', `${basename(cwd) || 'root'}-${hash}.json`));
+  }
+
+  /**
+   * Read the saved endpoint
+   *
+   * @returns The endpoint, or null when none was saved or the file is malformed
+   */
+  load(): StickyEndpoint | null {
+    if (!existsSync(this.filePath)) {
+      return null;
+    }
+
+    try {
+      const endpoint = JSON.parse(readFileSync(this.filePath, 'utf-8')) as Partial<StickyEndpoint>;
+      if (typeof endpoint.port === 'number' && typeof endpoint.authToken === 'string' && endpoint.authToken) {
+        return { port: endpoint.port, authToken: endpoint.authToken };
+      }
+    } catch (error) {
+      // Malformed file, a new endpoint replaces it
+    }
+    return null;
+  }
+
+  /**
+   * Save the endpoint, readable and writable by the owner only
+   */
+  save(endpoint: StickyEndpoint): void {
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+
+    writeFileSync(this.filePath, JSON.stringify(endpoint, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    // mode only applies to new files
+    chmodSync(this.filePath, 0o600);
+  }
+
+  /**
+   * Get the state file path
+   */
+  getPath(): string {
+    return this.filePath;
+  }
+}
@@ -0,0 +1,115 @@
+import { Neovim } from 'neovim';
+import { diffLines } from './line-diff.js';
+import { createShadowBuffer, wipeShadowBuffers } from './shadow-buffer.js';
+
+/**
+ * Formatter used for proposals: conform.nvim or the attached language servers
+ */
+export type FormatMode = 'conform' | 'lsp';
+
+/**
+ * Options for formatting a proposal buffer
+ */
+interface FormatProposalOptions {
+  bufnr: number;
+  filePath: string; // Target file, formatters see the proposal under a sibling name
+  mode: FormatMode | null; // null to only organize imports
+  organizeImports: boolean;
+  timeoutMs?: number;
+}
+
+/**
+ * Read the formatter from g:claude_format_on_accept.
+ * true or 'auto' picks conform.nvim when it is installed and LSP formatting otherwise.
+ *
+ * @param fallback - Value used when the variable isn't set
+ * @returns The formatter, or null when formatting is disabled
+ */
+export async function getFormatMode(nvim: Neovim, fallback: string | boolean = false): Promise<FormatMode | null> {
+  let setting = await nvim.getVar('claude_format_on_accept') as string | boolean | number | null;
+  if (setting === null || setting === undefined) {
+    setting = fallback;
+  }
+
+  if (setting === 'conform' || setting === 'lsp') {
+    return setting;
+  }
+  if (setting === true || setting === 1 || setting === 'auto') {
+    const hasConform = await nvim.call('luaeval', ["pcall(require, 'conform')"]) as boolean;
+    return hasConform ? 'conform' : 'lsp';
+  }
+  return null;
+}
+
+/**
+ * Format a proposal buffer the way the target file would be formatted.
+ *
+ * The proposal is copied to a shadow buffer named next to the target file, with its LSP
+ * clients attached; organize-imports code actions and the formatter run there. Changed
+ * lines are copied back hunk by hunk, so signs and comments on untouched lines stay put.
+ *
+ * @returns True when formatting changed the proposal
+ */
+export async function formatProposal(nvim: Neovim, options: FormatProposalOptions): Promise<boolean> {
+  const filetype = await nvim.call('getbufvar', [options.bufnr, '&filetype']) as string;
+  const lines = await nvim.call('nvim_buf_get_lines', [options.bufnr, 0, -1, false]) as string[];
+
+  const shadow = await createShadowBuffer(nvim, { filePath: options.filePath, ownerBufnr: options.bufnr, tag: 'format', lines, filetype });
+
+  let formatted: string[];
+  try {
+    formatted = await nvim.lua(`
+      local buf, mode, organize_imports, timeout = ...
+
+      if organize_imports then
+        local params = {
+          textDocument = { uri = vim.uri_from_bufnr(buf) },
+          range = {
+            start = { line = 0, character = 0 },
+            ['end'] = { line = vim.api.nvim_buf_line_count(buf), character = 0 },
+          },
+          context = { only = { 'source.organizeImports' }, diagnostics = {} },
+        }
+        local results = vim.lsp.buf_request_sync(buf, 'textDocument/codeAction', params, timeout) or {}
+        for client_id, response in pairs(results) do
+          local client = vim.lsp.get_client_by_id(client_id)
+          for _, action in ipairs(response.result or {}) do
+            if action.edit and client then
+              vim.lsp.util.apply_workspace_edit(action.edit, client.offset_encoding)
+            end
+            -- Code actions carry a Command table, bare commands have the command name as a string
+            local command = type(action.command) == 'table' and action.command or (type(action.command) == 'string' and action or nil)
+            if command then
+              vim.lsp.buf_request_sync(buf, 'workspace/executeCommand', command, timeout)
+            end
+          end
+        end
+      end
+
+      if mode == 'conform' then
+        require('conform').format({ bufnr = buf, async = false, timeout_ms = timeout, lsp_format = 'fallback' })
+      elseif mode == 'lsp' and #(vim.lsp.get_clients or vim.lsp.get_active_clients)({ bufnr = buf }) > 0 then
+        vim.lsp.buf.format({ bufnr = buf, async = false, timeout_ms = timeout })
+      end
+
+      return vim.api.nvim_buf_get_lines(buf, 0, -1, false)
+    `, [shadow.bufnr, options.mode ?? '', options.organizeImports, options.timeoutMs ?? 5000]) as string[];
+  } finally {
+    await wipeShadowBuffers(nvim, [shadow.bufnr]);
+  }
+
+  const hunks = diffLines(lines, formatted);
+
+  // Bottom-up, so earlier hunks keep their positions
+  for (const hunk of [...hunks].reverse()) {
+    await nvim.call('nvim_buf_set_lines', [
+      options.bufnr,
+      hunk.oldStart,
+      hunk.oldStart + hunk.oldCount,
+      false,
+      formatted.slice(hunk.newStart, hunk.newStart + hunk.newCount)
+    ]);
+  }
+
+  return hunks.length > 0;
+}
@@ -0,0 +1,45 @@
+import { Neovim } from 'neovim';
+import { basename } from 'path';
+
+/**
+ * Parts of the name Claude Code's IDE picker shows for this Neovim
+ */
+interface IdentityParts {
+  label: string; // g:claude_instance_label
+  project: string; // Basename of the global working directory
+  tabProject: string; // t:claude_project, or the current tab's :tcd directory
+  servername: string; // v:servername
+}
+
+/**
+ * Build the ideName announced in the lock file, e.g. "neovim · api · myrepo · tab web · nvim.1234.0",
+ * so several Neovims on the same project can be told apart.
+ * It always starts with "neovim"; empty parts and a tab project equal to the project are left out.
+ */
+export async function getIdeName(nvim: Neovim): Promise<string> {
+  const parts = await nvim.lua(`
+    local tab = vim.fn.tabpagenr()
+    local tab_project = vim.t.claude_project or ''
+    if tab_project == '' and vim.fn.haslocaldir(-1, tab) == 1 then
+      tab_project = vim.fn.fnamemodify(vim.fn.getcwd(-1, tab), ':t')
+    end
+
+    return {
+      label = vim.g.claude_instance_label or '',
+      project = vim.fn.fnamemodify(vim.fn.getcwd(-1, -1), ':t'),
+      tabProject = tab_project,
+      servername = vim.v.servername,
+    }
+  `, []) as IdentityParts;
+
+  // Socket paths are long and only their file name differs between instances
+  const servername = parts.servername.includes('/') ? basename(parts.servername) : parts.servername;
+
+  return [
+    'neovim',
+    parts.label,
+    parts.project,
+    parts.tabProject && parts.tabProject !== parts.project ? `tab ${parts.tabProject}` : '',
+    servername
+  ].filter(Boolean).join(' · ');
+}
@@ -0,0 +1,105 @@
+import { Neovim } from 'neovim';
+import { createHash, randomUUID } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { basename, dirname, join } from 'path';
+
+/**
+ * Outcome of a Claude proposal recorded in the journal
+ */
+export type JournalOutcome = 'accepted' | 'rejected' | 'reverted';
+
+/**
+ * One journal record
+ */
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  client: string; // Client name and version, its address when unknown, or 'user' for reverts
+  clientConnectedAt?: string; // When the client connected, telling its sessions apart
+  filePath: string;
+  oldFilePath?: string; // File the content was moved from, for renames
+  created?: boolean; // Whether filePath didn't exist before the change
+  outcome: JournalOutcome;
+  base: string; // File content before the change, read from oldFilePath for renames
+  content: string; // Accepted (or rejected) proposal content
+  reason?: string;
+  rule?: string; // Policy rule that settled the proposal without review
+}
+
+/**
+ * Append-only JSON Lines journal of Claude proposals for one workspace
+ */
+export class Journal {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Open the journal of Neovim's current working directory
+   * Stored under stdpath('state')/claude-neovim/journal/
+   */
+  static async forWorkspace(nvim: Neovim): Promise<Journal> {
+    const stateDir = await nvim.call('stdpath', ['state']) as string;
+    const cwd = await nvim.call('getcwd') as string;
+    const hash = createHash('sha256').update(cwd).digest('hex').slice(0, 12);
+
+    return new Journal(join(stateDir, 'claude-neovim', 'journal', `${basename(cwd) || 'root'}-${hash}.jsonl`));
+  }
+
+  /**
+   * Append an entry, assigning its id and timestamp
+   */
+  append(entry: Omit<JournalEntry, 'id' | 'timestamp'>): JournalEntry {
+    const record: JournalEntry = {
+      id: randomUUID().slice(0, 8),
+      timestamp: new Date().toISOString(),
+      ...entry
+    };
+
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    appendFileSync(this.filePath, JSON.stringify(record) + '\n', 'utf-8');
+    return record;
+  }
+
+  /**
+   * Read all entries, oldest first; malformed lines are skipped
+   */
+  entries(): JournalEntry[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const line of readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as JournalEntry);
+      } catch {
+        // Ignore partially written lines
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Find an entry by id
+   */
+  get(id: string): JournalEntry | undefined {
+    return this.entries().find(entry => entry.id === id);
+  }
+
+  /**
+   * Path of the journal file
+   */
+  getPath(): string {
+    return this.filePath;
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * A contiguous region where two versions of a text differ.
+ * Positions are 0-indexed line numbers; a count of 0 marks a pure insertion
+ * (old side) or a pure deletion (new side) before the given start line.
+ */
+export interface LineHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+}
+
+/**
+ * Compute the line-level hunks that turn `oldLines` into `newLines`
+ * (Myers' O(ND) algorithm on the region between the common prefix and suffix).
+ *
+ * @param oldLines - Original lines
+ * @param newLines - Modified lines
+ * @returns Hunks ordered by position
+ */
+export function diffLines(oldLines: string[], newLines: string[]): LineHunk[] {
+  // Skip common prefix and suffix, they never take part in a hunk
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  if (a.length === 0 && b.length === 0) {
+    return [];
+  }
+
+  const hunks: LineHunk[] = [];
+  let current: LineHunk | null = null;
+  let x = 0;
+  let y = 0;
+
+  for (const op of editScript(a, b)) {
+    if (op === '=') {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      x++;
+      y++;
+      continue;
+    }
+
+    if (!current) {
+      current = { oldStart: prefix + x, oldCount: 0, newStart: prefix + y, newCount: 0 };
+    }
+
+    if (op === '-') {
+      current.oldCount++;
+      x++;
+    } else {
+      current.newCount++;
+      y++;
+    }
+  }
+
+  if (current) {
+    hunks.push(current);
+  }
+
+  return hunks;
+}
+
+/**
+ * Shortest edit script between two line arrays:
+ * '=' keeps a line, '-' deletes a line of `a`, '+' inserts a line of `b`
+ */
+function editScript(a: string[], b: string[]): Array<'=' | '-' | '+'> {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+
+  // trace[d] holds the window of `v` (k = -d-1 .. d+1) as it was before step d
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the path
+  const ops: Array<'=' | '-' | '+'> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const window = trace[d];
+    const at = (k: number) => window[k + d + 1];
+    const k = x - y;
+
+    let prevK: number;
+    if (k === -d || (k !== d && at(k - 1) < at(k + 1))) {
+      prevK = k + 1;
+    } else {
+      prevK = k - 1;
+    }
+
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push('=');
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      ops.push(x === prevX ? '+' : '-');
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Count lines added and removed across a set of hunks
+ */
+export function countChanges(hunks: LineHunk[]): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const hunk of hunks) {
+    added += hunk.newCount;
+    removed += hunk.oldCount;
+  }
+  return { added, removed };
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+  lines: string[];
+  conflicts: number;
+}
+
+/**
+ * Conflict marker lines written by mergeLines
+ */
+export const CONFLICT_MARKERS = {
+  ours: '<<<<<<< current',
+  separator: '=======',
+  theirs: '>>>>>>> claude'
+};
+
+/**
+ * Three-way merge of two versions derived from a common base.
+ * Changes that touch the same or adjacent base lines and differ are wrapped in conflict markers.
+ *
+ * @param base - Common ancestor
+ * @param ours - Current version (file on disk or modified buffer)
+ * @param theirs - Claude's proposal
+ * @returns Merged lines and the number of conflicts
+ */
+export function mergeLines(base: string[], ours: string[], theirs: string[]): MergeResult {
+  const tagged = [
+    ...diffLines(base, ours).map(hunk => ({ hunk, side: 'ours' as const })),
+    ...diffLines(base, theirs).map(hunk => ({ hunk, side: 'theirs' as const }))
+  ].sort((a, b) => a.hunk.oldStart - b.hunk.oldStart);
+
+  const lines: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let oursDelta = 0;
+  let theirsDelta = 0;
+  let i = 0;
+
+  while (i < tagged.length) {
+    // Group hunks whose base ranges overlap or touch
+    const start = tagged[i].hunk.oldStart;
+    let end = start + tagged[i].hunk.oldCount;
+    const cluster = [tagged[i++]];
+
+    while (i < tagged.length && tagged[i].hunk.oldStart <= end) {
+      end = Math.max(end, tagged[i].hunk.oldStart + tagged[i].hunk.oldCount);
+      cluster.push(tagged[i++]);
+    }
+
+    lines.push(...base.slice(position, start));
+
+    // Text of the cluster region on one side, shifted by the changes made before it
+    const sideRegion = (side: 'ours' | 'theirs', sideLines: string[], delta: number) => {
+      const hunks = cluster.filter(entry => entry.side === side);
+      const growth = hunks.reduce((sum, entry) => sum + entry.hunk.newCount - entry.hunk.oldCount, 0);
+      return {
+        changed: hunks.length > 0,
+        text: sideLines.slice(start + delta, end + delta + growth),
+        growth
+      };
+    };
+
+    const oursRegion = sideRegion('ours', ours, oursDelta);
+    const theirsRegion = sideRegion('theirs', theirs, theirsDelta);
+
+    if (oursRegion.changed && theirsRegion.changed && oursRegion.text.join('\n') !== theirsRegion.text.join('\n')) {
+      lines.push(CONFLICT_MARKERS.ours, ...oursRegion.text, CONFLICT_MARKERS.separator, ...theirsRegion.text, CONFLICT_MARKERS.theirs);
+      conflicts++;
+    } else if (oursRegion.changed) {
+      lines.push(...oursRegion.text);
+    } else {
+      lines.push(...theirsRegion.text);
+    }
+
+    oursDelta += oursRegion.growth;
+    theirsDelta += theirsRegion.growth;
+    position = end;
+  }
+
+  lines.push(...base.slice(position));
+
+  return { lines, conflicts };
+}
@@ -1,11 +1,89 @@
 import { NvimPlugin } from 'neovim';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import { existsSync, readFileSync } from 'fs';
 import { Logger } from './logger.js';
+import { diffLines, countChanges, mergeLines, CONFLICT_MARKERS, LineHunk } from './line-diff.js';
+import { presentDiff, closeDiffView, updateDiffBase, DiffView } from './diff-view.js';
+import { syncBufferWithFile } from './buffer-sync.js';
+import {
+  startDiagnosticsPreview,
+  stopDiagnosticsPreview,
+  updateDiagnosticsBase,
+  getDiagnosticsDelta,
+  waitForDiagnosticsDelta,
+  isDiagnosticsPreviewEnabled,
+  DiagnosticsPreview
+} from './diagnostics-preview.js';
+import { formatProposal, getFormatMode, FormatMode } from './format-proposal.js';
+import { loadPolicyRules, evaluatePolicy, PolicyDecision } from './diff-policy.js';
 
-interface DiffChangeHandlers {
-  acceptChanges: (changeId: string) => Promise<boolean>;
-  dropChanges: (changeId: string) => Promise<boolean>;
+/**
+ * Review comment anchored to a range of the diff buffer
+ */
+interface ReviewComment {
+  markId: number; // Extmark keeping the comment attached to its line while the buffer is edited
+  line: number; // 1-based line the comment was made on
+  lineCount: number;
+  text: string;
+}
+
+/**
+ * What an openDiff proposal does to the file system
+ * - modify: old and new path are the same existing file
+ * - new: the file doesn't exist yet, the base is empty
+ * - rename: the content moves from old_file_path to new_file_path
+ * - missing: old_file_path differs from new_file_path and is gone from disk
+ */
+type ProposalKind = 'modify' | 'new' | 'rename' | 'missing';
+
+/**
+ * Summary of a pending diff for review lists
+ */
+export interface PendingDiffInfo {
+  changeId: string;
+  bufnr: number;
+  filePath: string;
+  tabName: string;
+  createdAt: number;
+  firstChangedLine: number; // 1-based, first line that differs from the base
+  added: number;
+  removed: number;
+}
+
+/**
+ * Final outcome of a pending diff, reported so it can be journaled
+ */
+export interface DiffSettledEvent {
+  filePath: string;
+  oldFilePath?: string; // File the content was moved from, for renames
+  created?: boolean; // Whether filePath didn't exist before the change
+  outcome: 'accepted' | 'rejected';
+  base: string; // File content before the change, read from oldFilePath for renames
+  content: string; // Proposal content as it was accepted or rejected
+  reason?: string;
+  rule?: string; // Policy rule that settled the proposal without review
+}
+
+/**
+ * Result of accepting a pending diff
+ * - accepted: the proposal was saved and the diff settled
+ * - blocked: the diff is still pending, e.g. it was merged, formatted or refused by the diagnostics gate
+ * - unknown: no pending diff has this changeId
+ */
+export type AcceptOutcome = 'accepted' | 'blocked' | 'unknown';
+
+export interface DiffChangeHandlers {
+  acceptChanges: (changeId: string, force?: boolean) => Promise<AcceptOutcome>;
+  dropChanges: (changeId: string, reason?: string) => Promise<boolean>;
+  hasChanges: (changeId: string) => boolean;
+  listPendingDiffs: () => Promise<PendingDiffInfo[]>;
+  orphanAll: () => Promise<number>;
+  addComment: (changeId: string, line: number, endLine: number, text: string) => Promise<boolean>;
+  acceptHunk: (changeId: string, line: number) => Promise<boolean>;
+  rejectHunk: (changeId: string, line: number) => Promise<boolean>;
+  acceptRemaining: (changeId: string) => Promise<boolean>;
+  formatChanges: (changeId: string) => Promise<boolean>;
 }
 
 /**
@@ -15,9 +93,16 @@ interface DiffChangeHandlers {
  * @param mcpServer - MCP server instance to register tools on
  * @param logger - Logger instance for tool execution logging
  * @param unsafeExecuteLua - Whether to register the unsafe executeCode tool
- * @returns Handlers for accepting/dropping changes
+ * @param onSettled - Called whenever a pending diff is accepted or rejected
+ * @returns Handlers for accepting/dropping changes and reviewing individual hunks
  */
-export function registerNvimMcpTools(plugin: NvimPlugin, mcpServer: McpServer, logger?: Logger, unsafeExecuteLua?: boolean): DiffChangeHandlers {
+export function registerNvimMcpTools(
+  plugin: NvimPlugin,
+  mcpServer: McpServer,
+  logger?: Logger,
+  unsafeExecuteLua?: boolean,
+  onSettled?: (event: DiffSettledEvent) => void
+): DiffChangeHandlers {
   const nvim = plugin.nvim;
   const toolLogger = logger?.child('Tools') || new Logger(plugin, 'Tools');
 
@@ -32,16 +117,251 @@ export function registerNvimMcpTools(plugin: NvimPlugin, mcpServer: McpServer, l
     resolve: (value: any) => void;
     reject: (reason: string) => void;
     filePath: string;
+    oldFilePath: string;
+    kind: ProposalKind;
+    tabName: string;
     bufnr: number;
+    createdAt: number;
+    baseLines: string[]; // File content when the diff was opened
+    reviewBase: string[]; // Base with all hunks decided so far applied
+    acceptedHunks: number;
+    rejectedHunks: number;
+    comments: ReviewComment[];
+    view: DiffView;
+    diagnostics: DiagnosticsPreview | null; // LSP diagnostics of the proposal, when a client handles the file
+    merged: boolean; // Base was replaced by a three-way merge with the changed file
   }>();
 
+  // Read a file as lines without line endings, empty when it doesn't exist yet
+  const readFileLines = (filePath: string): string[] => {
+    if (!existsSync(filePath)) {
+      return [];
+    }
+    return readFileSync(filePath, 'utf-8').split(/\r?\n/);
+  };
+
+  // Current content of a file: its loaded buffer when that has unsaved changes, otherwise the disk
+  const readCurrentLines = async (filePath: string): Promise<string[]> => {
+    const bufnr = await nvim.call('bufnr', [filePath]) as number;
+    if (bufnr !== -1 && await nvim.call('bufloaded', [bufnr]) && await nvim.call('getbufvar', [bufnr, '&modified'])) {
+      const lines = await nvim.call('nvim_buf_get_lines', [bufnr, 0, -1, false]) as string[];
+      // Match readFileLines, where a trailing newline yields an empty last line
+      const eol = await nvim.call('getbufvar', [bufnr, '&eol']) as number;
+      return eol ? [...lines, ''] : lines;
+    }
+    return readFileLines(filePath);
+  };
+
+  // Classify a proposal from its old and new paths
+  const classifyProposal = (oldFilePath: string, newFilePath: string): ProposalKind => {
+    if (oldFilePath && oldFilePath !== newFilePath) {
+      return existsSync(oldFilePath) ? 'rename' : 'missing';
+    }
+    return existsSync(newFilePath) ? 'modify' : 'new';
+  };
+
+  // Paths journaled with a settled diff: where renamed content came from, and whether the file is new
+  const settledPaths = ({ filePath, oldFilePath, kind }: { filePath: string; oldFilePath: string; kind: ProposalKind }) => ({
+    filePath,
+    oldFilePath: kind === 'rename' ? oldFilePath : undefined,
+    created: !existsSync(filePath)
+  });
+
+  // Human readable label shown in the diff buffer
+  const proposalLabel = (kind: ProposalKind, oldFilePath: string, newFilePath: string): string | null => {
+    switch (kind) {
+      case 'new':
+        return `[NEW FILE] ${newFilePath}`;
+      case 'rename':
+        return `[RENAME] ${oldFilePath} → ${newFilePath}`;
+      case 'missing':
+        return `[MISSING BASE] ${oldFilePath} not found on disk, diffing against ${existsSync(newFilePath) ? newFilePath : 'an empty file'}`;
+      default:
+        return null;
+    }
+  };
+
+  // After a rename or a missing base is accepted, move or clear buffers still attached to the old path
+  const reconcileOldPath = async (kind: ProposalKind, oldFilePath: string, newFilePath: string): Promise<void> => {
+    if (kind !== 'rename' && kind !== 'missing') {
+      return;
+    }
+
+    const oldBufnr = await nvim.call('bufnr', [oldFilePath]) as number;
+    if (oldBufnr === -1) {
+      return;
+    }
+
+    const modified = await nvim.call('getbufvar', [oldBufnr, '&modified']) as number;
+    if (modified) {
+      await toolLogger.warn(`Buffer for ${oldFilePath} has unsaved changes, leaving it untouched`);
+      return;
+    }
+
+    const newBufnr = await nvim.call('bufnr', [newFilePath]) as number;
+    if (kind === 'rename' && newBufnr === -1) {
+      // Move the buffer so windows, cursor and undo history follow the file
+      await nvim.call('nvim_buf_set_name', [oldBufnr, newFilePath]);
+      await toolLogger.info(`Moved buffer ${oldBufnr} from ${oldFilePath} to ${newFilePath}`);
+    } else {
+      await nvim.command(`bwipeout ${oldBufnr}`);
+      await toolLogger.info(`Closed buffer for ${oldFilePath}`);
+    }
+  };
+
+  // Find the hunk covering a buffer line (1-based); deletions are anchored to the line above
+  const hunkAtLine = (hunks: LineHunk[], line: number): LineHunk | undefined => {
+    const row = line - 1;
+    return hunks.find(hunk => {
+      if (hunk.newCount === 0) {
+        return row === Math.max(hunk.newStart - 1, 0);
+      }
+      return row >= hunk.newStart && row < hunk.newStart + hunk.newCount;
+    });
+  };
+
+  // Mark the lines of a decided hunk with a sign
+  const markHunkDecision = async (bufnr: number, start: number, count: number, accepted: boolean): Promise<void> => {
+    const ns = await nvim.call('nvim_create_namespace', ['claude_hunks']) as number;
+    const first = count === 0 ? Math.max(start - 1, 0) : start;
+    const last = count === 0 ? first : start + count - 1;
+
+    for (let row = first; row <= last; row++) {
+      await nvim.call('nvim_buf_set_extmark', [bufnr, ns, row, 0, {
+        sign_text: accepted ? '✓' : '✗',
+        sign_hl_group: accepted ? 'DiffAdd' : 'DiffDelete'
+      }]);
+    }
+  };
+
+  // Close the windows and diagnostics preview opened for a diff, ignoring windows the user already closed
+  const closeView = async ({ view, diagnostics }: { view: DiffView; diagnostics: DiagnosticsPreview | null }): Promise<void> => {
+    try {
+      if (diagnostics) {
+        await stopDiagnosticsPreview(nvim, diagnostics);
+      }
+      await closeDiffView(nvim, view);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      toolLogger.warn(`Error closing diff view: ${message}`).catch(() => {});
+    }
+  };
+
+  // Run organize imports and the formatter on a proposal buffer, true when it changed
+  const runFormatters = async (bufnr: number, filePath: string, mode: FormatMode | null): Promise<boolean> => {
+    const organizeImports = !!(await nvim.getVar('claude_organize_imports'));
+    if (!mode && !organizeImports) {
+      return false;
+    }
+
+    try {
+      return await formatProposal(nvim, { bufnr, filePath, mode, organizeImports });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await toolLogger.warn(`Formatting the proposal for ${filePath} failed: ${message}`);
+      return false;
+    }
+  };
+
+  // Reload the file's buffer once Claude Code has written the accepted content
+  const reloadAfterAccept = (filePath: string, content: string, previousContent: string): void => {
+    syncBufferWithFile(nvim, { filePath, content, previousContent })
+      .then(async (result) => {
+        if (result === 'merged') {
+          await toolLogger.info(`Merged accepted changes into the unsaved buffer for ${filePath}`);
+        } else if (result === 'conflict') {
+          await toolLogger.warn(`Unsaved edits in ${filePath} conflict with the accepted changes, buffer left untouched`);
+        } else if (result === 'timeout') {
+          await toolLogger.warn(`Accepted changes for ${filePath} were not written in time, buffer not reloaded`);
+        } else {
+          await toolLogger.debug(`Buffer sync for ${filePath}: ${result}`);
+        }
+      })
+      .catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        toolLogger.warn(`Error reloading buffer for ${filePath}: ${message}`).catch(() => {});
+      });
+  };
+
+  // Settle a proposal with the policy rules (g:claude_diff_rules and the project rules file).
+  // Returns the openDiff result when a rule accepted or rejected it, null when it needs review.
+  const applyPolicy = async (oldFilePath: string, filePath: string, contents: string): Promise<any[] | null> => {
+    const kind = classifyProposal(oldFilePath, filePath);
+    const basePath = kind === 'rename' ? oldFilePath : filePath;
+
+    let decision: PolicyDecision | null;
+    try {
+      const rules = await loadPolicyRules(nvim);
+      if (rules.length === 0) {
+        return null;
+      }
+
+      const { added, removed } = countChanges(diffLines(readFileLines(basePath), contents.split(/\r?\n/)));
+      const cwd = await nvim.call('getcwd') as string;
+      decision = evaluatePolicy(rules, {
+        filePath,
+        oldFilePath: kind === 'rename' ? oldFilePath : undefined,
+        exists: existsSync(filePath),
+        added,
+        removed
+      }, cwd);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await toolLogger.warn(`Ignoring diff rules: ${message}`);
+      return null;
+    }
+
+    if (!decision || decision.action === 'review') {
+      return null;
+    }
+
+    const previousContent = existsSync(filePath) ? readFileSync(filePath, 'utf-8') : '';
+    const base = existsSync(basePath) ? readFileSync(basePath, 'utf-8') : '';
+    const paths = { filePath, oldFilePath: kind === 'rename' ? oldFilePath : undefined, created: !existsSync(filePath) };
+
+    if (decision.action === 'reject') {
+      const reason = decision.reason || `Changes to this file are not allowed (${decision.rule})`;
+      await nvim.lua('vim.notify(...)', [`Claude: rejected changes to ${filePath} by rule ${decision.rule}`, 2]);
+      await toolLogger.info(`Rejected changes for ${filePath} by rule ${decision.rule}`);
+      onSettled?.({ ...paths, outcome: 'rejected', base, content: contents, reason, rule: decision.rule });
+
+      return [
+        { type: 'text', text: 'DIFF_REJECTED' },
+        { type: 'text', text: `Rejection reason: ${reason}` }
+      ];
+    }
+
+    await nvim.lua('vim.notify(...)', [`Claude: accepted changes to ${filePath} by rule ${decision.rule}`, 2]);
+    await toolLogger.info(`Accepted changes for ${filePath} by rule ${decision.rule}`);
+    onSettled?.({ ...paths, outcome: 'accepted', base, content: contents, rule: decision.rule });
+
+    await reconcileOldPath(kind, oldFilePath, filePath);
+    reloadAfterAccept(filePath, contents, previousContent);
+
+    return [
+      { type: 'text', text: 'FILE_SAVED' },
+      { type: 'text', text: contents }
+    ];
+  };
+
+  // Diagnostics of a buffer, or of all buffers, leaving out proposals and their shadow copies,
+  // which aren't files Claude can open
+  const getFileDiagnostics = async (bufnr: number | null): Promise<any[]> => {
+    return await nvim.lua(`
+      return vim.tbl_filter(function(diagnostic)
+        return not vim.b[diagnostic.bufnr].claude_shadow and not vim.b[diagnostic.bufnr].claude_proposal
+      end, vim.diagnostic.get(...))
+    `, bufnr === null ? [] : [bufnr]) as any[];
+  };
+
   // Accept changes handler
-  const acceptChanges = async (changeId: string): Promise<boolean> => {
+  const acceptChanges = async (changeId: string, force = false): Promise<AcceptOutcome> => {
     if (!diffPromises.has(changeId)) {
-      return false;
+      return 'unknown';
     }
 
-    const { resolve, filePath } = diffPromises.get(changeId)!;
+    const pending = diffPromises.get(changeId)!;
+    const { resolve, filePath, oldFilePath, kind, view } = pending;
 
     try {
       // Get buffer content
@@ -51,38 +371,141 @@ export function registerNvimMcpTools(plugin: NvimPlugin, mcpServer: McpServer, l
 
       if (!buffer) {
         await toolLogger.error(`Buffer ${bufnr} not found`);
-        return false;
+        return 'blocked';
       }
 
       const lines = await buffer.lines;
-      const content = lines.join('\n');
+      const fileformat = await buffer.getOption('fileformat') as string;
+
+      if (!force) {
+        // Conflicts from an earlier staleness merge must be resolved first
+        if (pending.merged && lines.some(line => line === CONFLICT_MARKERS.ours || line === CONFLICT_MARKERS.theirs)) {
+          await toolLogger.warn(`Resolve the conflict markers in the diff for ${filePath} first, or use :ClaudeAcceptForce`);
+          return 'blocked';
+        }
+
+        // Don't clobber edits made to the file since Claude proposed the diff
+        const current = await readCurrentLines(kind === 'rename' ? oldFilePath : filePath);
+        if (current.join('\n') !== pending.baseLines.join('\n')) {
+          const merge = mergeLines(pending.baseLines, current, lines);
+
+          await buffer.setLines(merge.lines, { start: 0, end: -1, strictIndexing: false });
+          await updateDiffBase(nvim, view, current);
+          if (pending.diagnostics) {
+            await updateDiagnosticsBase(nvim, pending.diagnostics, current);
+          }
+          pending.baseLines = current;
+          pending.merged = true;
+
+          // The merge replaced both sides, so hunks decided so far no longer match: review them again
+          pending.reviewBase = current;
+          pending.acceptedHunks = 0;
+          pending.rejectedHunks = 0;
+          const hunkNs = await nvim.call('nvim_create_namespace', ['claude_hunks']) as number;
+          await nvim.call('nvim_buf_clear_namespace', [pending.bufnr, hunkNs, 0, -1]);
+
+          if (merge.conflicts > 0) {
+            await toolLogger.warn(`${filePath} changed since Claude proposed this diff: merged with ${merge.conflicts} conflict(s), resolve them and accept again`);
+          } else {
+            await toolLogger.warn(`${filePath} changed since Claude proposed this diff: merged cleanly, review the result and accept again`);
+          }
+          return 'blocked';
+        }
+
+        // Format on accept: what gets written must be what was reviewed, so show the result first
+        if (await runFormatters(pending.bufnr, filePath, await getFormatMode(nvim))) {
+          await toolLogger.info(`Formatted the proposal for ${filePath}, review the result and accept again`);
+          return 'blocked';
+        }
+
+        // Optionally refuse proposals that introduce new LSP errors, or that the language servers haven't checked yet
+        const gate = await nvim.getVar('claude_diagnostics_gate') as boolean | number | null;
+        if (gate && pending.diagnostics) {
+          let delta = await getDiagnosticsDelta(nvim, pending.diagnostics);
+          if (!delta) {
+            await toolLogger.info(`Waiting for diagnostics of the proposal for ${filePath}`);
+            delta = await waitForDiagnosticsDelta(nvim, pending.diagnostics, 5000);
+          }
+          if (!delta) {
+            await toolLogger.warn(`No diagnostics for the proposal for ${filePath} yet, accept again once the summary shows or use :ClaudeAcceptForce`);
+            return 'blocked';
+          }
+          if (delta.errors > 0) {
+            await toolLogger.warn(`Proposal for ${filePath} adds ${delta.errors} error(s), fix them or use :ClaudeAcceptForce`);
+            return 'blocked';
+          }
+        }
+      }
+
+      const lineEnding = fileformat === 'dos' ? '\r\n' : '\n';
+      const content = lines.join(lineEnding);
 
       // Clear modified flag
       await buffer.setOption('modified', false);
 
       diffPromises.delete(changeId);
+      await closeView(pending);
+
+      // Before resolving: Claude Code writes the file as soon as it has the result
+      const previousContent = existsSync(filePath) ? readFileSync(filePath, 'utf-8') : '';
+      const paths = settledPaths(pending);
 
       resolve([
         { type: 'text', text: 'FILE_SAVED' },
         { type: 'text', text: content }
       ]);
       await toolLogger.info(`Accepted changes for ${filePath}`);
+      onSettled?.({ ...paths, outcome: 'accepted', base: pending.baseLines.join(lineEnding), content });
 
-      return true;
+      await reconcileOldPath(kind, oldFilePath, filePath);
+
+      reloadAfterAccept(filePath, content, previousContent);
+
+      return 'accepted';
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       await toolLogger.error(`Error accepting changes: ${message}`);
-      return false;
+      return 'blocked';
+    }
+  };
+
+  // Format review comments with their current line numbers
+  const collectComments = async (bufnr: number, comments: ReviewComment[]): Promise<string | null> => {
+    if (comments.length === 0) {
+      return null;
+    }
+
+    const ns = await nvim.call('nvim_create_namespace', ['claude_comments']) as number;
+    const entries: Array<{ line: number; text: string }> = [];
+
+    for (const comment of comments) {
+      let line = comment.line;
+      try {
+        // Follow the extmark in case lines were added or removed above the comment
+        const [row] = await nvim.call('nvim_buf_get_extmark_by_id', [bufnr, ns, comment.markId, {}]) as number[];
+        if (row !== undefined) {
+          line = row + 1;
+        }
+      } catch {
+        // Buffer is already gone, keep the original line
+      }
+
+      const range = comment.lineCount > 1 ? `Lines ${line}-${line + comment.lineCount - 1}` : `Line ${line}`;
+      entries.push({ line, text: `${range}: ${comment.text}` });
     }
+
+    entries.sort((a, b) => a.line - b.line);
+    return `Review comments on the proposed file:\n${entries.map(entry => entry.text).join('\n')}`;
   };
 
   // Drop changes handler
-  const dropChanges = async (changeId: string): Promise<boolean> => {
+  const dropChanges = async (changeId: string, reason?: string): Promise<boolean> => {
     if (!diffPromises.has(changeId)) {
       return false;
     }
 
-    const { resolve } = diffPromises.get(changeId)!;
+    const pending = diffPromises.get(changeId)!;
+    const { resolve, bufnr: diffBufnr, baseLines, comments } = pending;
 
     try {
       // Get buffer and clear modified flag
@@ -90,14 +513,30 @@ export function registerNvimMcpTools(plugin: NvimPlugin, mcpServer: McpServer, l
       const buffers = await nvim.buffers;
       const buffer = buffers.find(buf => buf.id === bufnr);
 
+      let content = '';
+      let lineEnding = '\n';
       if (buffer) {
         await buffer.setOption('modified', false);
+        lineEnding = await buffer.getOption('fileformat') === 'dos' ? '\r\n' : '\n';
+        content = (await buffer.lines).join(lineEnding);
       }
 
+      const feedback = await collectComments(diffBufnr, comments);
+
       diffPromises.delete(changeId);
+      await closeView(pending);
 
-      resolve([{ type: 'text', text: 'DIFF_REJECTED' }]);
-      await toolLogger.info('Rejected changes');
+      const result = [{ type: 'text', text: 'DIFF_REJECTED' }];
+      if (reason) {
+        result.push({ type: 'text', text: `Rejection reason: ${reason}` });
+      }
+      if (feedback) {
+        result.push({ type: 'text', text: feedback });
+      }
+
+      resolve(result);
+      await toolLogger.info(reason ? `Rejected changes: ${reason}` : 'Rejected changes');
+      onSettled?.({ ...settledPaths(pending), outcome: 'rejected', base: baseLines.join(lineEnding), content, reason });
 
       return true;
     } catch (error) {
@@ -107,6 +546,244 @@ export function registerNvimMcpTools(plugin: NvimPlugin, mcpServer: McpServer, l
     }
   };
 
+  // Add comment handler: anchor a review comment to a line range of the diff buffer, throws when it can't
+  const addComment = async (changeId: string, line: number, endLine: number, text: string): Promise<boolean> => {
+    if (!diffPromises.has(changeId)) {
+      return false;
+    }
+
+    const pending = diffPromises.get(changeId)!;
+
+    // Errors reach the caller, a comment that isn't shown must not be reported as added
+    const ns = await nvim.call('nvim_create_namespace', ['claude_comments']) as number;
+    const markId = await nvim.call('nvim_buf_set_extmark', [pending.bufnr, ns, line - 1, 0, {
+      virt_text: [[`💬 ${text}`, 'Comment']],
+      virt_text_pos: 'eol'
+    }]) as number;
+
+    pending.comments.push({ markId, line, lineCount: endLine - line + 1, text });
+    await toolLogger.info(`Added review comment at line ${line}`);
+
+    return true;
+  };
+
+  // List pending diffs with their current change counts
+  const listPendingDiffs = async (): Promise<PendingDiffInfo[]> => {
+    const buffers = await nvim.buffers;
+    const result: PendingDiffInfo[] = [];
+
+    for (const [changeId, pending] of diffPromises.entries()) {
+      const buffer = buffers.find(buf => buf.id === pending.bufnr);
+      const lines = buffer ? await buffer.lines : [];
+      const hunks = diffLines(pending.baseLines, lines);
+      const { added, removed } = countChanges(hunks);
+
+      result.push({
+        changeId,
+        bufnr: pending.bufnr,
+        filePath: pending.filePath,
+        tabName: pending.tabName,
+        createdAt: pending.createdAt,
+        firstChangedLine: hunks.length > 0 ? hunks[0].newStart + 1 : 1,
+        added,
+        removed
+      });
+    }
+
+    return result;
+  };
+
+  // Orphan all handler: the client is gone, settle its diffs and keep or close their buffers
+  const orphanAll = async (): Promise<number> => {
+    const mode = await nvim.getVar('claude_orphaned_diffs') as string | null;
+    const ns = await nvim.call('nvim_create_namespace', ['claude_labels']) as number;
+    let count = 0;
+
+    for (const [changeId, pending] of [...diffPromises.entries()]) {
+      diffPromises.delete(changeId);
+      pending.resolve([{ type: 'text', text: 'DIFF_REJECTED' }]);
+      count++;
+
+      try {
+        if (!await nvim.call('nvim_buf_is_valid', [pending.bufnr])) {
+          onSettled?.({ ...settledPaths(pending), outcome: 'rejected', base: pending.baseLines.join('\n'), content: '', reason: 'Client disconnected' });
+          continue;
+        }
+
+        const lines = await nvim.call('nvim_buf_get_lines', [pending.bufnr, 0, -1, false]) as string[];
+        onSettled?.({
+          ...settledPaths(pending),
+          outcome: 'rejected',
+          base: pending.baseLines.join('\n'),
+          content: lines.join('\n'),
+          reason: 'Client disconnected'
+        });
+
+        if (mode === 'close') {
+          await closeView(pending);
+          await nvim.command(`bdelete! ${pending.bufnr}`);
+          continue;
+        }
+
+        if (pending.diagnostics) {
+          await stopDiagnosticsPreview(nvim, pending.diagnostics);
+        }
+
+        // Keep the proposal as a plain scratch buffer that :ClaudeSaveOrphan can still write
+        await nvim.command(`autocmd! BufWriteCmd <buffer=${pending.bufnr}>`);
+        await nvim.call('setbufvar', [pending.bufnr, '&buftype', 'nofile']);
+        await nvim.call('setbufvar', [pending.bufnr, 'claude_orphan_path', pending.filePath]);
+        await nvim.call('nvim_buf_set_name', [pending.bufnr, `[orphaned] ${pending.tabName}`]);
+        await nvim.call('nvim_buf_clear_namespace', [pending.bufnr, ns, 0, -1]);
+        await nvim.call('nvim_buf_set_extmark', [pending.bufnr, ns, 0, 0, {
+          virt_lines: [[[`[ORPHANED] Claude disconnected, :ClaudeSaveOrphan writes this to ${pending.filePath}`, 'ErrorMsg']]],
+          virt_lines_above: true
+        }]);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        toolLogger.warn(`Error orphaning diff buffer ${pending.bufnr}: ${message}`).catch(() => {});
+      }
+    }
+
+    if (count > 0) {
+      await toolLogger.warn(`Client disconnected, ${count} pending diff(s) orphaned`);
+    }
+
+    return count;
+  };
+
+  // Settle the review once every hunk has been decided
+  const finishReviewIfDone = async (changeId: string, lines: string[]): Promise<void> => {
+    const pending = diffPromises.get(changeId)!;
+    if (diffLines(pending.reviewBase, lines).length > 0) {
+      return;
+    }
+
+    await toolLogger.info(`All hunks decided for ${pending.filePath} (${pending.acceptedHunks} accepted, ${pending.rejectedHunks} rejected)`);
+
+    if (pending.acceptedHunks > 0) {
+      await acceptChanges(changeId);
+    } else {
+      await dropChanges(changeId);
+    }
+  };
+
+  // Accept hunk handler: fold the hunk under the cursor into the review base
+  const acceptHunk = async (changeId: string, line: number): Promise<boolean> => {
+    if (!diffPromises.has(changeId)) {
+      return false;
+    }
+
+    const pending = diffPromises.get(changeId)!;
+
+    try {
+      const buffers = await nvim.buffers;
+      const buffer = buffers.find(buf => buf.id === pending.bufnr);
+
+      if (!buffer) {
+        await toolLogger.error(`Buffer ${pending.bufnr} not found`);
+        return true;
+      }
+
+      const lines = await buffer.lines;
+      const hunk = hunkAtLine(diffLines(pending.reviewBase, lines), line);
+
+      if (!hunk) {
+        await toolLogger.warn(`No pending hunk at line ${line}`);
+        return true;
+      }
+
+      pending.reviewBase = [
+        ...pending.reviewBase.slice(0, hunk.oldStart),
+        ...lines.slice(hunk.newStart, hunk.newStart + hunk.newCount),
+        ...pending.reviewBase.slice(hunk.oldStart + hunk.oldCount)
+      ];
+      pending.acceptedHunks++;
+
+      await markHunkDecision(pending.bufnr, hunk.newStart, hunk.newCount, true);
+      await finishReviewIfDone(changeId, lines);
+
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await toolLogger.error(`Error accepting hunk: ${message}`);
+      return true;
+    }
+  };
+
+  // Reject hunk handler: restore the review base text for the hunk under the cursor
+  const rejectHunk = async (changeId: string, line: number): Promise<boolean> => {
+    if (!diffPromises.has(changeId)) {
+      return false;
+    }
+
+    const pending = diffPromises.get(changeId)!;
+
+    try {
+      const buffers = await nvim.buffers;
+      const buffer = buffers.find(buf => buf.id === pending.bufnr);
+
+      if (!buffer) {
+        await toolLogger.error(`Buffer ${pending.bufnr} not found`);
+        return true;
+      }
+
+      const lines = await buffer.lines;
+      const hunk = hunkAtLine(diffLines(pending.reviewBase, lines), line);
+
+      if (!hunk) {
+        await toolLogger.warn(`No pending hunk at line ${line}`);
+        return true;
+      }
+
+      const restored = pending.reviewBase.slice(hunk.oldStart, hunk.oldStart + hunk.oldCount);
+      await buffer.setLines(restored, {
+        start: hunk.newStart,
+        end: hunk.newStart + hunk.newCount,
+        strictIndexing: false
+      });
+      pending.rejectedHunks++;
+
+      await markHunkDecision(pending.bufnr, hunk.newStart, hunk.oldCount, false);
+      await finishReviewIfDone(changeId, [
+        ...lines.slice(0, hunk.newStart),
+        ...restored,
+        ...lines.slice(hunk.newStart + hunk.newCount)
+      ]);
+
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await toolLogger.error(`Error rejecting hunk: ${message}`);
+      return true;
+    }
+  };
+
+  // Format handler: format the proposal now, with the configured formatter or the best available one
+  const formatChanges = async (changeId: string): Promise<boolean> => {
+    if (!diffPromises.has(changeId)) {
+      return false;
+    }
+
+    const { bufnr, filePath } = diffPromises.get(changeId)!;
+    const changed = await runFormatters(bufnr, filePath, await getFormatMode(nvim, 'auto'));
+    await toolLogger.info(changed ? `Formatted the proposal for ${filePath}` : `The proposal for ${filePath} is already formatted`);
+    return true;
+  };
+
+  // Accept remaining handler: every undecided hunk is kept as shown in the buffer
+  const acceptRemaining = async (changeId: string): Promise<boolean> => {
+    if (!diffPromises.has(changeId)) {
+      return false;
+    }
+
+    const pending = diffPromises.get(changeId)!;
+    await toolLogger.info(`Accepting remaining hunks for ${pending.filePath} (${pending.rejectedHunks} rejected)`);
+
+    await acceptChanges(changeId);
+    return true;
+  };
+
   // Tool 1: openDiff
   mcpServer.registerTool(
     'openDiff',
@@ -120,6 +797,14 @@ export function registerNvimMcpTools(plugin: NvimPlugin, mcpServer: McpServer, l
       }
     },
     async ({ old_file_path, new_file_path, new_file_contents, tab_name }) => {
+      // Rules can accept or reject the proposal without opening a diff
+      const settled = await applyPolicy(old_file_path, new_file_path, new_file_contents);
+      if (settled) {
+        return {
+          content: settled
+        };
+      }
+
       // Create new listed buffer
       const bufnr = await nvim.call('nvim_create_buf', [true, false]) as number;
 
@@ -127,41 +812,124 @@ export function registerNvimMcpTools(plugin: NvimPlugin, mcpServer: McpServer, l
       const pid = await nvim.call('getpid') as number;
       const changeId = `${pid}/${bufnr}`;
 
-      // Activate the buffer
-      if (await commandExists('ClaudeActivateBufferDiff')) {
-        await nvim.command(`ClaudeActivateBufferDiff ${bufnr}`);
-      }
-
       // Get the buffer
-      const buffer = await nvim.buffer;
+      const buffers = await nvim.buffers;
+      const buffer = buffers.find(buf => buf.id === bufnr)!;
 
       // Set buffer options
       await buffer.setOption('buftype', 'acwrite');
       await buffer.setOption('swapfile', false);
+      await buffer.setVar('claude_proposal', true); // Its diagnostics aren't those of a file
 
-      // Set buffer content
-      const lines = new_file_contents.split('\n');
+      // Set buffer content, line endings are restored from 'fileformat' on accept
+      const lines = new_file_contents.split(/\r?\n/);
       await buffer.setLines(lines, { start: 0, end: -1, strictIndexing: false });
 
       // Set buffer name
-      const buffers = await nvim.buffers;
-      buffers.filter(buf => buf.id === bufnr).forEach(buf => {
-        buf.name = tab_name;
-      });
+      buffer.name = tab_name;
+
+      // Detect filetype and editing options as Neovim would for the real file
+      const kind = classifyProposal(old_file_path, new_file_path);
+      const basePath = kind === 'rename' ? old_file_path : new_file_path;
+      const baseContent = existsSync(basePath) ? readFileSync(basePath, 'utf-8') : '';
+      const fileformat = (baseContent || new_file_contents).includes('\r\n') ? 'dos' : 'unix';
 
-      // Set filetype based on file extension
-      const { extname } = require('path');
-      const fileExt = extname(new_file_path).slice(1); // Remove the dot
-      if (fileExt) {
-        await buffer.setOption('filetype', fileExt);
+      await nvim.lua(`
+        local bufnr, path, original_path, fileformat = ...
+        local ft, on_detect = vim.filetype.match({ buf = bufnr, filename = path })
+        if ft then
+          -- The ftplugin runs when filetype is set, on_detect adjusts its options afterwards
+          vim.bo[bufnr].filetype = ft
+          if on_detect then
+            on_detect(bufnr)
+          end
+        end
+        vim.bo[bufnr].fileformat = fileformat
+
+        -- An open buffer for the file knows its real settings (modelines, editorconfig, ...)
+        local original = vim.fn.bufnr(original_path)
+        if original == -1 or not vim.api.nvim_buf_is_loaded(original) then
+          original = vim.fn.bufnr(path)
+        end
+        if original ~= -1 and vim.api.nvim_buf_is_loaded(original) then
+          for _, option in ipairs({ 'fileformat', 'expandtab', 'shiftwidth', 'tabstop', 'softtabstop' }) do
+            vim.bo[bufnr][option] = vim.bo[original][option]
+          end
+        elseif vim.g.editorconfig ~= false then
+          -- Otherwise apply the indentation properties of .editorconfig, as opening the file would.
+          -- editorconfig only reads normal buffers named after a file: resolve them on the file's
+          -- unloaded buffer, or on a temporary one
+          local ok, editorconfig = pcall(require, 'editorconfig')
+          local probe = original
+          if ok and probe == -1 then
+            probe = vim.api.nvim_create_buf(false, false)
+            local eventignore = vim.o.eventignore
+            vim.o.eventignore = 'all'
+            pcall(vim.api.nvim_buf_set_name, probe, path)
+            vim.o.eventignore = eventignore
+          end
+
+          if ok and pcall(editorconfig.config, probe) then
+            local applied = vim.b[probe].editorconfig or {}
+            for _, property in ipairs({ 'indent_style', 'indent_size', 'tab_width' }) do
+              if applied[property] ~= nil and editorconfig.properties[property] then
+                pcall(editorconfig.properties[property], bufnr, applied[property], applied)
+              end
+            end
+          end
+          if probe ~= original then
+            vim.api.nvim_buf_delete(probe, { force = true })
+          end
+        end
+      `, [bufnr, new_file_path, basePath, fileformat]);
+
+      // Register BufWriteCmd for this buffer to call ClaudeAccept (:w! calls ClaudeAcceptForce)
+      await nvim.command(`autocmd BufWriteCmd <buffer=${bufnr}> execute v:cmdbang ? 'ClaudeAcceptForce' : 'ClaudeAccept'`);
+
+      // Snapshot the base for hunk review: the old path for renames, nothing for new files
+      const baseLines = readFileLines(basePath);
+
+      // Label new files, renames and missing bases above the first line
+      const label = proposalLabel(kind, old_file_path, new_file_path);
+      if (label) {
+        const ns = await nvim.call('nvim_create_namespace', ['claude_labels']) as number;
+        await nvim.call('nvim_buf_set_extmark', [bufnr, ns, 0, 0, {
+          virt_lines: [[[label, 'WarningMsg']]],
+          virt_lines_above: true
+        }]);
+        await buffer.setVar('claude_diff_label', label);
+      }
+
+      // Present the diff, user-defined commands override the built-in windows and diff mode
+      const activateHook = await commandExists('ClaudeActivateBufferDiff');
+      const showHook = await commandExists('ClaudeShowFileDiff');
+
+      if (activateHook) {
+        await nvim.command(`ClaudeActivateBufferDiff ${bufnr}`);
       }
 
-      // Register BufWriteCmd for this buffer to call ClaudeAccept
-      await nvim.command(`autocmd BufWriteCmd <buffer=${bufnr}> ClaudeAccept`);
+      const view = await presentDiff(nvim, {
+        bufnr,
+        baseLines,
+        title: label || tab_name,
+        activate: !activateHook,
+        nativeDiff: !showHook
+      });
+
+      if (showHook) {
+        // Renames are shown against the file they come from
+        await nvim.command(`ClaudeShowFileDiff ${bufnr} ${basePath}`);
+      }
 
-      // Call ClaudeShowFileDiff command if it exists
-      if (await commandExists('ClaudeShowFileDiff')) {
-        await nvim.command(`ClaudeShowFileDiff ${bufnr} ${new_file_path}`);
+      // Preview LSP diagnostics of the proposal against the current file
+      let diagnostics: DiagnosticsPreview | null = null;
+      if (await isDiagnosticsPreviewEnabled(nvim)) {
+        try {
+          diagnostics = await startDiagnosticsPreview(nvim, { bufnr, filePath: new_file_path, baseLines });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          await toolLogger.warn(`Diagnostics preview unavailable: ${message}`);
+        }
       }
 
       // Create promise for this diff
@@ -170,7 +938,19 @@ export function registerNvimMcpTools(plugin: NvimPlugin, mcpServer: McpServer, l
           resolve,
           reject,
           filePath: new_file_path,
-          bufnr
+          oldFilePath: old_file_path,
+          kind,
+          tabName: tab_name,
+          bufnr,
+          createdAt: Date.now(),
+          baseLines,
+          reviewBase: baseLines,
+          acceptedHunks: 0,
+          rejectedHunks: 0,
+          comments: [],
+          view,
+          diagnostics,
+          merged: false
         });
       });
 
@@ -201,8 +981,9 @@ export function registerNvimMcpTools(plugin: NvimPlugin, mcpServer: McpServer, l
         const changeId = `${pid}/${bufnr}`;
         const isDiffBuffer = diffPromises.has(changeId);
 
-        // Delete with force only if it's a diff buffer
+        // Delete with force only if it's a diff buffer, settling it first so it leaves the review lists
         if (isDiffBuffer) {
+          await dropChanges(changeId, 'Diff tab closed');
           await nvim.command(`bdelete! ${bufnr}`);
         } else {
           await nvim.command(`bdelete ${bufnr}`);
@@ -243,16 +1024,11 @@ export function registerNvimMcpTools(plugin: NvimPlugin, mcpServer: McpServer, l
               content: [{ type: 'text', text: JSON.stringify([]) }]
             };
           }
-          diagnostics = await nvim.call('luaeval', [
-            'vim.diagnostic.get(tonumber(...))',
-            bufnr
-          ]) as any[];
+          diagnostics = await getFileDiagnostics(bufnr);
           fileName = filePath;
         } else {
           // Get diagnostics for all buffers
-          diagnostics = await nvim.call('luaeval', [
-            'vim.diagnostic.get()'
-          ]) as any[];
+          diagnostics = await getFileDiagnostics(null);
         }
 
         const formatted = await Promise.all(diagnostics.map(async (diag: any) => {
@@ -301,9 +1077,10 @@ export function registerNvimMcpTools(plugin: NvimPlugin, mcpServer: McpServer, l
     async () => {
       let closedCount = 0;
 
-      // Delete all diff buffers (force)
-      for (const [changeId, { bufnr }] of diffPromises.entries()) {
+      // Settle and delete all diff buffers (force)
+      for (const [changeId, { bufnr }] of [...diffPromises.entries()]) {
         try {
+          await dropChanges(changeId, 'Diff tab closed');
           await nvim.command(`bdelete! ${bufnr}`);
           closedCount++;
         } catch (error) {
@@ -364,6 +1141,14 @@ export function registerNvimMcpTools(plugin: NvimPlugin, mcpServer: McpServer, l
 
   return {
     acceptChanges,
-    dropChanges
+    dropChanges,
+    hasChanges: (changeId: string) => diffPromises.has(changeId),
+    listPendingDiffs,
+    orphanAll,
+    addComment,
+    acceptHunk,
+    rejectHunk,
+    acceptRemaining,
+    formatChanges
   };
 }
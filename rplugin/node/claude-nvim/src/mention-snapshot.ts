@@ -0,0 +1,129 @@
+import { Neovim } from 'neovim';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+
+/**
+ * File extensions of common filetypes whose name isn't their extension, for unnamed buffers
+ */
+const FILETYPE_EXTENSIONS: Record<string, string> = {
+  typescript: 'ts',
+  typescriptreact: 'tsx',
+  javascript: 'js',
+  javascriptreact: 'jsx',
+  python: 'py',
+  ruby: 'rb',
+  rust: 'rs',
+  markdown: 'md',
+  text: 'txt',
+  help: 'txt',
+  vim: 'vim',
+  bash: 'sh',
+  zsh: 'sh',
+  csharp: 'cs',
+  kotlin: 'kt',
+  haskell: 'hs',
+  elixir: 'ex',
+  erlang: 'erl',
+  perl: 'pl',
+  make: 'mk'
+};
+
+/**
+ * Buffer state needed to snapshot it
+ */
+interface SnapshotSource {
+  name: string;
+  filetype: string;
+  modified: boolean;
+  lines: string[];
+}
+
+/**
+ * Temporary copies of buffers with unsaved changes, so mentions point Claude at the content on screen.
+ * Each buffer has one snapshot, rewritten on every mention, in a private directory removed by cleanup().
+ * Reports listing what mentioned diagnostics or list entries say are kept there as well.
+ */
+export class SnapshotStore {
+  private dir: string | null = null;
+  private nextReport = 1;
+
+  /**
+   * Path to mention for a buffer: its file when saved, otherwise a fresh snapshot
+   *
+   * @param snapshots - Whether to snapshot modified and unnamed buffers
+   * @returns The path ('' for an unnamed buffer without snapshots) and whether it misses unsaved changes
+   */
+  async mentionPath(nvim: Neovim, bufnr: number, snapshots: boolean): Promise<{ filePath: string; stale: boolean }> {
+    const source = await nvim.lua(`
+      local buf = ...
+      return {
+        name = vim.api.nvim_buf_get_name(buf),
+        filetype = vim.bo[buf].filetype,
+        modified = vim.bo[buf].modified,
+        lines = vim.api.nvim_buf_get_lines(buf, 0, -1, false),
+      }
+    `, [bufnr]) as SnapshotSource;
+
+    if (source.name && !source.modified) {
+      return { filePath: source.name, stale: false };
+    }
+    if (!snapshots) {
+      return { filePath: source.name, stale: source.modified };
+    }
+
+    return { filePath: this.write(bufnr, source), stale: false };
+  }
+
+  /**
+   * Write a text report next to the snapshots, such as the messages of mentioned diagnostics
+   *
+   * @param kind - What the report lists, part of its file name
+   * @returns Path of the report
+   */
+  writeReport(kind: string, lines: string[]): string {
+    const reportDir = join(this.ensureDir(), 'reports');
+    mkdirSync(reportDir, { recursive: true });
+    const filePath = join(reportDir, `${kind}-${this.nextReport++}.txt`);
+    writeFileSync(filePath, lines.join('\n') + '\n', { encoding: 'utf-8', mode: 0o600 });
+
+    return filePath;
+  }
+
+  /**
+   * Remove all snapshots and reports
+   */
+  cleanup(): void {
+    if (this.dir) {
+      rmSync(this.dir, { recursive: true, force: true });
+      this.dir = null;
+    }
+  }
+
+  /**
+   * Write a snapshot as buffer-<bufnr>/<file name>, or untitled.<ext> for unnamed buffers
+   */
+  private write(bufnr: number, source: SnapshotSource): string {
+    let name = basename(source.name);
+    if (!name) {
+      name = `untitled.${FILETYPE_EXTENSIONS[source.filetype] ?? (source.filetype || 'txt')}`;
+    }
+
+    const bufferDir = join(this.ensureDir(), `buffer-${bufnr}`);
+    mkdirSync(bufferDir, { recursive: true });
+    const filePath = join(bufferDir, name);
+    writeFileSync(filePath, source.lines.join('\n') + '\n', { encoding: 'utf-8', mode: 0o600 });
+
+    return filePath;
+  }
+
+  /**
+   * Private directory of the snapshots, created on first use
+   */
+  private ensureDir(): string {
+    if (!this.dir) {
+      this.dir = mkdtempSync(join(tmpdir(), 'claude-nvim-snapshots-'));
+    }
+    return this.dir;
+  }
+}
@@ -0,0 +1,175 @@
+import { Neovim } from 'neovim';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { dirname } from 'path';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Parameters of one at_mentioned notification (0-based lines)
+ */
+export interface Mention {
+  filePath: string;
+  lineStart?: number;
+  lineEnd?: number;
+}
+
+/**
+ * Mentions gathered from a list, with a readable report of what the entries say
+ */
+export interface MentionBatch {
+  mentions: Mention[];
+  report: string[]; // "path:line:col: text" lines, the messages Claude can't get from locations alone
+}
+
+/**
+ * A diff hunk around the cursor
+ */
+export interface Hunk {
+  lineStart: number; // 0-based, in the buffer (gitsigns) or the saved file (git diff)
+  lineEnd: number;
+  fromBuffer: boolean; // Whether lines refer to the buffer rather than the saved file
+}
+
+/**
+ * Collect the diagnostics covering the cursor line of the current buffer, most severe first
+ *
+ * @param filePath - Path to mention for the buffer
+ */
+export async function diagnosticsAtCursor(nvim: Neovim, filePath: string): Promise<MentionBatch> {
+  return await nvim.lua(`
+    local path = ...
+    local lnum = vim.fn.line('.') - 1
+
+    local found = {}
+    for _, d in ipairs(vim.diagnostic.get(0)) do
+      if d.lnum <= lnum and lnum <= math.max(d.end_lnum or d.lnum, d.lnum) then
+        table.insert(found, d)
+      end
+    end
+    table.sort(found, function(a, b) return a.severity < b.severity end)
+
+    local mentions, report = {}, {}
+    for _, d in ipairs(found) do
+      local end_lnum = math.max(d.end_lnum or d.lnum, d.lnum)
+      table.insert(mentions, { filePath = path, lineStart = d.lnum, lineEnd = end_lnum })
+
+      local origin = d.source and (' [' .. d.source .. (d.code and (' ' .. d.code) or '') .. ']') or ''
+      table.insert(report, string.format('%s:%d:%d-%d:%d: %s%s: %s',
+        path, d.lnum + 1, d.col + 1, end_lnum + 1, (d.end_col or d.col) + 1,
+        vim.diagnostic.severity[d.severity], origin, d.message:gsub('%s+', ' ')))
+    end
+
+    return { mentions = mentions, report = report }
+  `, [filePath]) as MentionBatch;
+}
+
+/**
+ * Collect the valid entries of the quickfix list, or of the current window's location list
+ */
+export async function listEntries(nvim: Neovim, loclist: boolean): Promise<MentionBatch> {
+  return await nvim.lua(`
+    local loclist = ...
+    local items = loclist and vim.fn.getloclist(0) or vim.fn.getqflist()
+
+    local mentions, report = {}, {}
+    for _, item in ipairs(items) do
+      if item.valid == 1 and item.bufnr > 0 then
+        local path = vim.fn.fnamemodify(vim.api.nvim_buf_get_name(item.bufnr), ':p')
+        if item.lnum > 0 then
+          local end_lnum = math.max(item.end_lnum or 0, item.lnum)
+          table.insert(mentions, { filePath = path, lineStart = item.lnum - 1, lineEnd = end_lnum - 1 })
+        else
+          table.insert(mentions, { filePath = path })
+        end
+        table.insert(report, string.format('%s:%d:%d: %s%s', path, item.lnum, item.col,
+          item.type ~= '' and (item.type .. ': ') or '', vim.trim(item.text):gsub('%s+', ' ')))
+      end
+    end
+
+    return { mentions = mentions, report = report }
+  `, [loclist]) as MentionBatch;
+}
+
+/**
+ * Directory to mention: the path argument, or the directory shown by netrw or oil.nvim
+ *
+ * @returns The absolute directory, or null when there is none
+ */
+export async function directoryToMention(nvim: Neovim, path?: string): Promise<string | null> {
+  const { directory } = await nvim.lua(`
+    local path = ...
+    if path ~= '' then
+      path = vim.fn.fnamemodify(vim.fn.expand(path), ':p')
+    elseif vim.bo.filetype == 'netrw' and vim.b.netrw_curdir then
+      path = vim.b.netrw_curdir
+    elseif vim.bo.filetype == 'oil' then
+      local ok, oil = pcall(require, 'oil')
+      path = ok and oil.get_current_dir() or ''
+    end
+    if path == '' or vim.fn.isdirectory(path) == 0 then
+      return { directory = '' }
+    end
+    return { directory = (vim.fn.fnamemodify(path, ':p'):gsub('(.)/$', '%1')) }
+  `, [path ?? '']) as { directory: string };
+
+  return directory || null;
+}
+
+/**
+ * Find the git hunk at the cursor of the current buffer: from gitsigns.nvim when it is attached,
+ * otherwise from `git diff -U0` of the saved file
+ *
+ * @returns The hunk, or null when the cursor isn't in one
+ */
+export async function hunkAtCursor(nvim: Neovim, filePath: string): Promise<Hunk | null> {
+  const line = await nvim.call('line', ['.']) as number;
+
+  const gitsigns = await nvim.lua(`
+    local ok, gitsigns = pcall(require, 'gitsigns')
+    if not ok or not vim.b.gitsigns_head then
+      return vim.NIL
+    end
+    local hunks = gitsigns.get_hunks(0) or {}
+    return vim.tbl_map(function(hunk) return { hunk.added.start, hunk.added.count } end, hunks)
+  `, []) as Array<[number, number]> | null;
+
+  if (gitsigns) {
+    const hunk = findHunk(gitsigns, line);
+    return hunk && { ...hunk, fromBuffer: true };
+  }
+
+  let diff: string;
+  try {
+    ({ stdout: diff } = await execFileAsync('git', ['diff', '-U0', '--no-color', '--', filePath], {
+      cwd: dirname(filePath),
+      timeout: 5000
+    }));
+  } catch {
+    // Not a git repository, or git isn't installed
+    return null;
+  }
+
+  const hunks: Array<[number, number]> = [];
+  for (const match of diff.matchAll(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/gm)) {
+    hunks.push([parseInt(match[1], 10), match[2] === undefined ? 1 : parseInt(match[2], 10)]);
+  }
+
+  const hunk = findHunk(hunks, line);
+  return hunk && { ...hunk, fromBuffer: false };
+}
+
+/**
+ * Find the hunk, given as [first added line, added count] (1-based), that contains a line.
+ * Pure deletions are matched on the line they were removed at.
+ */
+function findHunk(hunks: Array<[number, number]>, line: number): { lineStart: number; lineEnd: number } | null {
+  for (const [start, count] of hunks) {
+    const first = Math.max(start, 1);
+    const last = first + Math.max(count, 1) - 1;
+    if (first <= line && line <= last) {
+      return { lineStart: first - 1, lineEnd: last - 1 };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,292 @@
+import { Neovim } from 'neovim';
+
+/**
+ * Position in a document: 0-based line, character offset in UTF-16 code units (as in LSP)
+ */
+export interface Position {
+  line: number;
+  character: number;
+}
+
+/**
+ * Text selected in a visual mode with its range.
+ * Blockwise selections also list the range of each line of the rectangle.
+ */
+export interface ExtractedSelection {
+  start: Position;
+  end: Position;
+  text: string;
+  ranges?: Array<{ start: Position; end: Position }>;
+}
+
+/**
+ * The last visual selection of a buffer, read from its '< and '> marks
+ */
+export interface MarkedSelection {
+  selection: ExtractedSelection;
+  mode: string; // visualmode()
+  exclusive: boolean; // 'selection' was exclusive
+}
+
+/**
+ * Editor state needed to report the selection, gathered in a single call
+ */
+export interface SelectionState {
+  pid: number;
+  bufnr: number;
+  name: string;
+  buftype: string;
+  filetype: string;
+  mode: string;
+  cursor: Position;
+  selection?: ExtractedSelection; // Present in visual modes
+  followFiletypes: string[]; // g:claude_follow_focus_filetypes
+  followExcludeFiletypes: string[]; // g:claude_follow_focus_exclude_filetypes
+}
+
+/**
+ * Parameters of a selection_changed notification
+ */
+export interface SelectionParams {
+  text: string;
+  filePath: string;
+  fileUrl: string;
+  selection: {
+    start: Position;
+    end: Position;
+    isEmpty: boolean;
+    ranges?: Array<{ start: Position; end: Position }>;
+  };
+}
+
+/**
+ * Lua helpers shared by the selection readers.
+ *
+ * extract(buf, mode, a, b, to_end) reads the selection between two {line, byte col} positions:
+ * - v: characters from a to b, honouring 'selection' (exclusive leaves out the character at b)
+ * - V: whole lines
+ * - CTRL-V: the same screen columns on every line (to the end of each line after "$")
+ * Multibyte characters are never split and characters are counted in UTF-16 code units.
+ */
+const SELECTION_LUA = `
+  local CHAR = '[%z\\1-\\127\\194-\\244][\\128-\\191]*'
+  local MAXCOL = vim.v.maxcol or 2147483647
+
+  -- UTF-16 code units in the first bytes of a line
+  local function utf16(line, bytes)
+    local units = 0
+    for ch in line:sub(1, bytes):gmatch(CHAR) do
+      units = units + (#ch == 4 and 2 or 1)
+    end
+    return units
+  end
+
+  -- Last byte of the character starting at byte col
+  local function char_end(line, col)
+    if col > #line then
+      return #line
+    end
+    local ch = line:match('^' .. CHAR, col)
+    return col + (ch and #ch or 1) - 1
+  end
+
+  local function extract(buf, mode, a, b, to_end)
+    if a[1] > b[1] or (a[1] == b[1] and a[2] > b[2]) then
+      a, b = b, a
+    end
+
+    local lines = vim.api.nvim_buf_get_lines(buf, a[1] - 1, b[1], false)
+    local first, last = lines[1] or '', lines[#lines] or ''
+    local exclusive = vim.o.selection == 'exclusive'
+
+    if mode == 'V' then
+      return {
+        start = { line = a[1] - 1, character = 0 },
+        ['end'] = { line = b[1] - 1, character = utf16(last, #last) },
+        text = table.concat(lines, '\\n'),
+      }
+    end
+
+    if mode == 'v' then
+      local start_byte = math.min(a[2], #first + 1) - 1
+      local end_byte = exclusive and math.min(b[2] - 1, #last) or char_end(last, b[2])
+
+      local parts = { first:sub(start_byte + 1) }
+      if #lines == 1 then
+        parts[1] = first:sub(start_byte + 1, end_byte)
+      else
+        for i = 2, #lines - 1 do
+          table.insert(parts, lines[i])
+        end
+        table.insert(parts, last:sub(1, end_byte))
+      end
+
+      return {
+        start = { line = a[1] - 1, character = utf16(first, start_byte) },
+        ['end'] = { line = b[1] - 1, character = utf16(last, end_byte) },
+        text = table.concat(parts, '\\n'),
+      }
+    end
+
+    -- Blockwise: screen columns spanned by both corners
+    local function screen_cols(line, col)
+      return vim.fn.strdisplaywidth(line:sub(1, col - 1)) + 1, vim.fn.strdisplaywidth(line:sub(1, char_end(line, col)))
+    end
+    local a_left, a_right = screen_cols(first, a[2])
+    local b_left, b_right = screen_cols(last, b[2])
+    local left = math.min(a_left, b_left)
+    local right = to_end and math.huge or math.max(a_right, b_right)
+    if exclusive and not to_end then
+      right = right - 1
+    end
+
+    local ranges, rows = {}, {}
+    for i, line in ipairs(lines) do
+      local first_byte, last_byte
+      local col = 0
+      for pos, ch in line:gmatch('()(' .. CHAR .. ')') do
+        local width = vim.fn.strdisplaywidth(ch, col)
+        if col + width >= left and col + 1 <= right then
+          first_byte = first_byte or pos
+          last_byte = pos + #ch - 1
+        end
+        col = col + width
+        if col >= right then
+          break
+        end
+      end
+
+      local lnum = a[1] + i - 2
+      if first_byte then
+        rows[i] = line:sub(first_byte, last_byte)
+        ranges[i] = {
+          start = { line = lnum, character = utf16(line, first_byte - 1) },
+          ['end'] = { line = lnum, character = utf16(line, last_byte) },
+        }
+      else
+        -- Line too short to reach the block
+        local eol = { line = lnum, character = utf16(line, #line) }
+        rows[i] = ''
+        ranges[i] = { start = eol, ['end'] = eol }
+      end
+    end
+
+    return {
+      start = ranges[1].start,
+      ['end'] = ranges[#ranges]['end'],
+      text = table.concat(rows, '\\n'),
+      ranges = ranges,
+    }
+  end
+`;
+
+/**
+ * Gather the current buffer, mode, cursor and visual selection in one round trip
+ */
+export async function getSelectionState(nvim: Neovim): Promise<SelectionState> {
+  return await nvim.lua(SELECTION_LUA + `
+    local buf = vim.api.nvim_get_current_buf()
+    local mode = vim.api.nvim_get_mode().mode
+    local cursor = vim.fn.getcurpos()
+
+    local selection
+    if mode == 'v' or mode == 'V' or mode == '\\22' then
+      local anchor = vim.fn.getpos('v')
+      selection = extract(buf, mode, { anchor[2], anchor[3] }, { cursor[2], cursor[3] }, cursor[5] >= MAXCOL)
+    end
+
+    return {
+      pid = vim.fn.getpid(),
+      bufnr = buf,
+      name = vim.api.nvim_buf_get_name(buf),
+      buftype = vim.bo[buf].buftype,
+      filetype = vim.bo[buf].filetype,
+      mode = mode,
+      cursor = { line = cursor[2] - 1, character = utf16(vim.api.nvim_get_current_line(), cursor[3] - 1) },
+      selection = selection,
+      followFiletypes = vim.g.claude_follow_focus_filetypes or {},
+      followExcludeFiletypes = vim.g.claude_follow_focus_exclude_filetypes or {},
+    }
+  `, []) as SelectionState;
+}
+
+/**
+ * Read the last visual selection of the current buffer from the '< and '> marks
+ *
+ * @returns The selection, or null when the buffer has none
+ */
+export async function getMarkedSelection(nvim: Neovim): Promise<MarkedSelection | null> {
+  const result = await nvim.lua(SELECTION_LUA + `
+    local a, b = vim.fn.getpos("'<"), vim.fn.getpos("'>")
+    if a[2] == 0 or b[2] == 0 then
+      return vim.NIL
+    end
+
+    local mode = vim.fn.visualmode()
+    if mode == '' then
+      mode = 'v'
+    end
+
+    return {
+      selection = extract(0, mode, { a[2], a[3] }, { b[2], b[3] }, b[3] >= MAXCOL),
+      mode = mode,
+      exclusive = vim.o.selection == 'exclusive',
+    }
+  `, []) as MarkedSelection | null;
+
+  return result || null;
+}
+
+/**
+ * Lines covered by a selection, as 0-based line numbers for at_mentioned
+ */
+export function selectionLines({ selection, mode, exclusive }: MarkedSelection): { lineStart: number; lineEnd: number } {
+  let lineEnd = selection.end.line;
+
+  // An exclusive characterwise selection ending before the first character doesn't include that line
+  if (exclusive && mode === 'v' && selection.end.character === 0 && lineEnd > selection.start.line) {
+    lineEnd--;
+  }
+
+  return { lineStart: selection.start.line, lineEnd };
+}
+
+/**
+ * Build the selection_changed parameters for a gathered state:
+ * the visual selection, or the cursor position as an empty selection
+ */
+export function buildSelectionParams(state: SelectionState): SelectionParams {
+  if (!state.selection) {
+    return emptySelectionParams(state.name, state.cursor.line, state.cursor.character);
+  }
+
+  const { start, end, text, ranges } = state.selection;
+
+  return {
+    text,
+    filePath: state.name,
+    fileUrl: `file://${state.name}`,
+    selection: {
+      start,
+      end,
+      isEmpty: start.line === end.line && start.character === end.character,
+      ...(ranges ? { ranges } : {})
+    }
+  };
+}
+
+/**
+ * Selection parameters for a bare cursor position (0-based)
+ */
+export function emptySelectionParams(filePath: string, line: number, character: number): SelectionParams {
+  return {
+    text: '',
+    filePath,
+    fileUrl: `file://${filePath}`,
+    selection: {
+      start: { line, character },
+      end: { line, character },
+      isEmpty: true
+    }
+  };
+}
@@ -0,0 +1,98 @@
+import { Neovim } from 'neovim';
+
+/**
+ * Hidden copy of a proposal that language servers and formatters can work on
+ */
+export interface ShadowBuffer {
+  bufnr: number;
+  clients: number; // Number of LSP clients attached to it
+}
+
+/**
+ * Options for creating a shadow buffer
+ */
+interface ShadowBufferOptions {
+  filePath: string; // Target file, the shadow is named next to it so tools resolve the project the same way
+  ownerBufnr: number; // Proposal buffer the shadow belongs to, part of its name
+  tag: string; // What the shadow is for, part of its name
+  lines: string[];
+  filetype: string;
+  isolated?: boolean; // Name it under Neovim's temporary directory instead, outside the project
+}
+
+/**
+ * Create an unlisted scratch buffer named like a sibling of the target file and attach the
+ * LSP clients of that file: the clients of its loaded buffer, otherwise every running client
+ * whose filetypes and root directory match. The buffer never exists on disk, it is marked with
+ * b:claude_shadow so its diagnostics aren't reported to Claude.
+ *
+ * A sibling is seen as part of the target's package, where servers of languages like Go, Java
+ * or C# report its declarations as duplicates of the target's. Isolated shadows keep the file
+ * name in a private directory of their own, so servers check them on their own.
+ */
+export async function createShadowBuffer(nvim: Neovim, options: ShadowBufferOptions): Promise<ShadowBuffer> {
+  const [bufnr, clients] = await nvim.lua(`
+    local path, owner, tag, lines, filetype, isolated = ...
+    local get_clients = vim.lsp.get_clients or vim.lsp.get_active_clients
+
+    local clients = {}
+    local original = vim.fn.bufnr(path)
+    if original ~= -1 and vim.api.nvim_buf_is_loaded(original) then
+      clients = get_clients({ bufnr = original })
+    end
+    if #clients == 0 then
+      for _, client in ipairs(get_clients()) do
+        local filetypes = client.config.filetypes
+        local root = client.config.root_dir
+        if (not filetypes or vim.tbl_contains(filetypes, filetype)) and (not root or vim.startswith(path, root .. '/')) then
+          table.insert(clients, client)
+        end
+      end
+    end
+
+    local dir = vim.fn.fnamemodify(path, ':h')
+    local name = vim.fn.fnamemodify(path, ':t')
+    local stem, ext = name:match('^(.-)(%.[^.]*)$')
+    if not stem then
+      stem, ext = name, ''
+    end
+
+    local buf = vim.api.nvim_create_buf(false, true)
+    if isolated then
+      -- Neovim removes its temporary directory on exit
+      local shadow_dir = vim.fn.fnamemodify(vim.fn.tempname(), ':h') .. '/claude-' .. tag .. '-' .. owner
+      vim.fn.mkdir(shadow_dir, 'p')
+      vim.b[buf].claude_shadow_dir = shadow_dir
+      vim.api.nvim_buf_set_name(buf, shadow_dir .. '/' .. name)
+    else
+      vim.api.nvim_buf_set_name(buf, dir .. '/' .. stem .. '.claude-' .. tag .. '-' .. owner .. ext)
+    end
+    vim.api.nvim_buf_set_lines(buf, 0, -1, false, lines)
+    vim.bo[buf].filetype = filetype
+    vim.b[buf].claude_shadow = true
+    for _, client in ipairs(clients) do
+      vim.lsp.buf_attach_client(buf, client.id)
+    end
+
+    return { buf, #clients }
+  `, [options.filePath, options.ownerBufnr, options.tag, options.lines, options.filetype, Boolean(options.isolated)]) as [number, number];
+
+  return { bufnr, clients };
+}
+
+/**
+ * Wipe shadow buffers, which detaches their LSP clients, and the directories of isolated ones
+ */
+export async function wipeShadowBuffers(nvim: Neovim, bufnrs: number[]): Promise<void> {
+  await nvim.lua(`
+    for _, buf in ipairs(...) do
+      if vim.api.nvim_buf_is_valid(buf) then
+        local shadow_dir = vim.b[buf].claude_shadow_dir
+        vim.api.nvim_buf_delete(buf, { force = true })
+        if shadow_dir then
+          vim.fn.delete(shadow_dir, 'rf')
+        end
+      end
+    end
+  `, [bufnrs]);
+}
@@ -0,0 +1,55 @@
+import { Neovim } from 'neovim';
+
+/**
+ * Compute the workspace folders announced to Claude Code in the lock file, in this order:
+ * - the current working directory, which Claude treats as the main root
+ * - the working directories of every tab page and window (:tcd, :lcd)
+ * - the workspace folders (or root directory) of running LSP clients
+ * - roots pinned in g:claude_workspace_folders
+ * Duplicates and paths that aren't directories are left out.
+ */
+export async function getWorkspaceFolders(nvim: Neovim): Promise<string[]> {
+  const { folders } = await nvim.lua(`
+    local folders, seen = {}, {}
+    local function add(path)
+      if type(path) ~= 'string' or path == '' then
+        return
+      end
+      path = vim.fn.fnamemodify(vim.fn.expand(path), ':p'):gsub('(.)/$', '%1')
+      if not seen[path] and vim.fn.isdirectory(path) == 1 then
+        seen[path] = true
+        table.insert(folders, path)
+      end
+    end
+
+    add(vim.fn.getcwd())
+    for _, tab in ipairs(vim.api.nvim_list_tabpages()) do
+      local tabnr = vim.api.nvim_tabpage_get_number(tab)
+      add(vim.fn.getcwd(-1, tabnr))
+      for _, win in ipairs(vim.api.nvim_tabpage_list_wins(tab)) do
+        add(vim.fn.getcwd(win, tabnr))
+      end
+    end
+
+    for _, client in ipairs((vim.lsp.get_clients or vim.lsp.get_active_clients)()) do
+      if client.workspace_folders and #client.workspace_folders > 0 then
+        for _, folder in ipairs(client.workspace_folders) do
+          add(vim.uri_to_fname(folder.uri))
+        end
+      else
+        add(client.config.root_dir)
+      end
+    end
+
+    local pinned = vim.g.claude_workspace_folders
+    if type(pinned) == 'table' then
+      for _, path in ipairs(pinned) do
+        add(path)
+      end
+    end
+
+    return { folders = folders }
+  `, []) as { folders: string[] };
+
+  return folders;
+}
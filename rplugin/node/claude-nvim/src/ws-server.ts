@@ -1,17 +1,20 @@
 import { WebSocketServer } from 'ws';
 import { randomUUID } from 'crypto';
-import { writeFileSync, mkdirSync, existsSync, unlinkSync } from 'fs';
-import { join } from 'path';
+import { writeFileSync, readFileSync, readdirSync, renameSync, mkdirSync, existsSync, unlinkSync, chmodSync } from 'fs';
+import { dirname, join } from 'path';
 import { homedir } from 'os';
+import { createServer } from 'http';
+import { AddressInfo, Server, connect, createServer as createNetServer } from 'net';
 
 /**
  * Lock file format for Claude Code authentication
  */
-interface LockFile {
+export interface LockFile {
   pid: number;
   workspaceFolders: string[];
   ideName: string;
-  transport: 'ws';
+  transport: 'ws' | 'uds'; // 'uds' when the server is only reachable through socketPath
+  socketPath?: string; // Unix domain socket serving the same protocol
   authToken: string;
 }
 
@@ -19,27 +22,51 @@ interface LockFile {
  * Configuration for Claude WebSocket Server
  */
 interface ClaudeWebSocketServerConfig {
-  port: number;
+  port?: number; // Fixed port; when absent a free port is picked from portRange
+  preferredPort?: number; // Port tried first when there is no fixed port
+  portRange?: [number, number]; // Inclusive, defaults to 10000-65535
+  authToken?: string; // Random when absent
+  socketPath?: string; // Listen on this Unix domain socket instead of a TCP port
+  bridge?: boolean; // With socketPath, also forward a localhost TCP port to the socket
   path?: string;
   workspaceFolders?: string[];
   ideName?: string;
 }
 
+/**
+ * A listening Claude Code WebSocket Server and where Claude finds it
+ */
+export interface ClaudeWebSocketServer {
+  wss: WebSocketServer;
+  port: number | null; // TCP port (of the bridge in socket mode), null when only the socket listens
+  socketPath: string | null;
+  lockFilePath: string;
+}
+
+/**
+ * Number of ports tried in the port range before giving up
+ */
+const PORT_ATTEMPTS = 20;
+
 /**
  * Creates a Claude Code WebSocket Server with authentication
  * Implements the authentication protocol from:
  * https://raw.githubusercontent.com/coder/claudecode.nvim/refs/heads/main/PROTOCOL.md
  *
+ * The server listens on localhost TCP, or on a Unix domain socket only its owner can connect to.
+ * Without a fixed port, the preferred port and then random ports of the port range are tried
+ * until one is free. The lock file is written once the server is listening and removed when
+ * it closes; in socket mode without a bridge it is named uds-[pid].lock.
+ *
  * @param config - Server configuration
- * @returns WebSocketServer instance
+ * @returns The listening server
+ * @throws Error when the port (or every port tried in the range) is in use
  *
  * @example
  * ```typescript
- * const server = createClaudeWebSocketServer({ port: 45678, path: '/claude' });
+ * const { wss } = await createClaudeWebSocketServer({ port: 45678, path: '/claude' });
  *
- * await server.start();
- *
- * server.on('connection', (client) => {
+ * wss.on('connection', (client) => {
  *   console.log('Client connected');
  *   client.on('message', (data) => {
  *     console.log('Received:', data.toString());
@@ -47,44 +74,55 @@ interface ClaudeWebSocketServerConfig {
  * });
  *
  * // Later...
- * await server.stop();
+ * wss.close();
  * ```
  */
-export function createClaudeWebSocketServer(
+export async function createClaudeWebSocketServer(
   config: ClaudeWebSocketServerConfig
-): WebSocketServer {
-  const port = config.port;
+): Promise<ClaudeWebSocketServer> {
   const path = config.path || '/';
   const workspaceFolders = config.workspaceFolders || [process.cwd()];
   const ideName = config.ideName || 'neovim';
+  const socketPath = config.socketPath ?? null;
 
   // Generate authentication token
-  const authToken = randomUUID();
-
-  // Lock file path: ~/.claude/ide/[port].lock
-  const claudeDir = join(homedir(), '.claude', 'ide');
-  const lockFilePath = join(claudeDir, `${port}.lock`);
+  const authToken = config.authToken || randomUUID();
 
-  // Create lock file directory if it doesn't exist
-  if (!existsSync(claudeDir)) {
-    mkdirSync(claudeDir, { recursive: true });
+  let ports = config.port ? [config.port] : pickPorts(config.portRange ?? [10000, 65535]);
+  if (!config.port && config.preferredPort) {
+    ports = [config.preferredPort, ...ports.filter(port => port !== config.preferredPort)];
   }
 
-  // Create lock file with authentication token
-  const lockData: LockFile = {
-    pid: process.pid,
-    workspaceFolders,
-    ideName,
-    transport: 'ws',
-    authToken
-  };
+  const server = createServer();
+  let bridge: Server | null = null;
+  let port: number | null = null;
 
-  writeFileSync(lockFilePath, JSON.stringify(lockData, null, 2), 'utf-8');
+  if (socketPath) {
+    // Owner-only directory and socket, left over sockets of a crashed server are replaced
+    mkdirSync(dirname(socketPath), { recursive: true, mode: 0o700 });
+    if (existsSync(socketPath)) {
+      unlinkSync(socketPath);
+    }
+    await listenOn(server, socketPath);
+    chmodSync(socketPath, 0o600);
+
+    if (config.bridge) {
+      bridge = createBridge(socketPath);
+      try {
+        port = await listenOnFreePort(bridge, ports, config.port);
+      } catch (error) {
+        // Closing the server removes its socket
+        server.close();
+        throw error;
+      }
+    }
+  } else {
+    // Bound to localhost only
+    port = await listenOnFreePort(server, ports, config.port);
+  }
 
-  // Create WebSocket server bound to localhost only
   const wss = new WebSocketServer({
-    host: '127.0.0.1',
-    port,
+    server,
     path,
     verifyClient: (info, callback) => {
       // Verify authentication token from header
@@ -98,16 +136,222 @@ export function createClaudeWebSocketServer(
     }
   });
 
+  // Lock file path: ~/.claude/ide/[port].lock
+  const lockFilePath = port !== null ? getLockFilePath(port) : join(getLockDir(), `uds-${process.pid}.lock`);
+
   // Register cleanup on server close
   wss.on('close', () => {
+    server.close();
+    bridge?.close();
     try {
       if (existsSync(lockFilePath)) {
         unlinkSync(lockFilePath);
       }
+      if (socketPath && existsSync(socketPath)) {
+        unlinkSync(socketPath);
+      }
     } catch (error) {
       // Ignore errors during cleanup
     }
   });
 
-  return wss;
+  // Create lock file directory if it doesn't exist
+  if (!existsSync(dirname(lockFilePath))) {
+    mkdirSync(dirname(lockFilePath), { recursive: true, mode: 0o700 });
+  }
+
+  // Create lock file with authentication token
+  const lockData: LockFile = {
+    pid: process.pid,
+    workspaceFolders,
+    ideName,
+    transport: port !== null ? 'ws' : 'uds',
+    ...(socketPath ? { socketPath } : {}),
+    authToken
+  };
+
+  try {
+    writeLockFile(lockFilePath, lockData);
+  } catch (error) {
+    wss.close();
+    throw error;
+  }
+
+  return { wss, port, socketPath, lockFilePath };
+}
+
+/**
+ * Start listening on a localhost port or a Unix domain socket
+ *
+ * @returns False when the port is in use
+ */
+function listenOn(server: Server, target: number | string): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const onError = (error: NodeJS.ErrnoException) => {
+      server.off('listening', onListening);
+      if (error.code === 'EADDRINUSE' && typeof target === 'number') {
+        resolve(false);
+      } else {
+        reject(error);
+      }
+    };
+    const onListening = () => {
+      server.off('error', onError);
+      resolve(true);
+    };
+
+    server.once('error', onError);
+    server.once('listening', onListening);
+    server.listen(typeof target === 'number' ? { host: '127.0.0.1', port: target } : { path: target });
+  });
+}
+
+/**
+ * Listen on the first free port of a list
+ *
+ * @param fixedPort - The port the list was made of, for the error message
+ * @returns The port
+ * @throws Error when every port is in use
+ */
+async function listenOnFreePort(server: Server, ports: number[], fixedPort?: number): Promise<number> {
+  for (const port of ports) {
+    if (await listenOn(server, port)) {
+      return (server.address() as AddressInfo).port;
+    }
+  }
+  throw new Error(fixedPort ? `Port ${fixedPort} is already in use` : `No free port found after ${ports.length} attempts`);
+}
+
+/**
+ * TCP server forwarding every connection to a Unix domain socket, for clients that can't use sockets
+ */
+function createBridge(socketPath: string): Server {
+  return createNetServer(client => {
+    const upstream = connect(socketPath);
+    client.pipe(upstream).pipe(client);
+
+    client.on('error', () => upstream.destroy());
+    upstream.on('error', () => client.destroy());
+    client.on('close', () => upstream.destroy());
+    upstream.on('close', () => client.destroy());
+  });
+}
+
+/**
+ * Distinct random ports of an inclusive range, at most PORT_ATTEMPTS of them
+ */
+function pickPorts([min, max]: [number, number]): number[] {
+  const size = max - min + 1;
+  const ports = new Set<number>();
+
+  while (ports.size < Math.min(size, PORT_ATTEMPTS)) {
+    ports.add(min + Math.floor(Math.random() * size));
+  }
+
+  return [...ports];
+}
+
+/**
+ * Remove lock files of Neovim servers whose process is gone, e.g. after a crash, together with
+ * their sockets. Neovim lock files are those whose ideName starts with "neovim".
+ *
+ * @returns Names of the removed lock files
+ */
+export function sweepStaleLockFiles(): string[] {
+  const claudeDir = getLockDir();
+  if (!existsSync(claudeDir)) {
+    return [];
+  }
+
+  const removed: string[] = [];
+
+  for (const name of readdirSync(claudeDir)) {
+    if (!/^(uds-)?\d+\.lock$/.test(name)) {
+      continue;
+    }
+
+    try {
+      const lockFilePath = join(claudeDir, name);
+      const lockData = JSON.parse(readFileSync(lockFilePath, 'utf-8')) as Partial<LockFile>;
+
+      if (lockData.ideName?.startsWith('neovim') && typeof lockData.pid === 'number' && !isProcessAlive(lockData.pid)) {
+        unlinkSync(lockFilePath);
+        if (lockData.socketPath && existsSync(lockData.socketPath)) {
+          unlinkSync(lockData.socketPath);
+        }
+        removed.push(name);
+      }
+    } catch (error) {
+      // Unreadable or foreign lock file, leave it alone
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Whether a process exists; EPERM means it exists but belongs to another user
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Directory of Claude Code's IDE lock files: ~/.claude/ide
+ */
+function getLockDir(): string {
+  return join(homedir(), '.claude', 'ide');
+}
+
+/**
+ * Path of the lock file of a port: ~/.claude/ide/[port].lock
+ */
+function getLockFilePath(port: number): string {
+  return join(getLockDir(), `${port}.lock`);
+}
+
+/**
+ * Write a lock file atomically, so Claude Code never reads a partial file.
+ * It holds the auth token, so it is only readable by its owner.
+ */
+function writeLockFile(lockFilePath: string, lockData: LockFile): void {
+  const tempPath = `${lockFilePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(lockData, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  // mode only applies to new files, a temp file left by a crash may be readable
+  chmodSync(tempPath, 0o600);
+  renameSync(tempPath, lockFilePath);
+}
+
+/**
+ * Read a lock file
+ *
+ * @returns The lock data, or null when the file doesn't exist
+ */
+export function readLockFile(lockFilePath: string): LockFile | null {
+  if (!existsSync(lockFilePath)) {
+    return null;
+  }
+  return JSON.parse(readFileSync(lockFilePath, 'utf-8')) as LockFile;
+}
+
+/**
+ * Update fields of the lock file of a running server, keeping its token
+ *
+ * @param lockFilePath - Lock file of the server
+ * @param changes - Fields to replace
+ * @returns False when the server has no lock file
+ */
+export function updateLockFile(lockFilePath: string, changes: Partial<Pick<LockFile, 'workspaceFolders' | 'ideName'>>): boolean {
+  const lockData = readLockFile(lockFilePath);
+  if (!lockData) {
+    return false;
+  }
+
+  writeLockFile(lockFilePath, { ...lockData, ...changes });
+  return true;
 }